@@ -6,7 +6,12 @@
 import { createIssuesApi, type IssuesApi } from './issues'
 import { createEpicsApi, type EpicsApi } from './epics'
 import { createHooks, type Hooks } from './hooks'
+import { createWatcher, type Watcher, type WatcherEvent, type WatcherOptions, type WatcherSnapshot } from './watcher'
+import { issueEventNames, deriveEvents, derivedEventArgs } from './events'
 import { findBeadsDir } from './reader'
+import type { IssueSource } from './source'
+import type { BeadsStore } from './store'
+import { getIssueCache } from './cache'
 import type { Issue } from './types'
 
 /**
@@ -14,6 +19,17 @@ import type { Issue } from './types'
  */
 export interface BeadsOptions {
   path?: string
+  watch?: boolean | WatcherOptions
+  /**
+   * Where issues and epics are read from (default: 'auto' - the beads
+   * database when present, since bd updates it before exporting JSONL)
+   */
+  source?: IssueSource
+  /**
+   * Store to read, mutate and watch issues through, e.g. createMemoryStore()
+   * to run without files or bd (default: bd and the files at path)
+   */
+  store?: BeadsStore
 }
 
 /**
@@ -25,6 +41,9 @@ export interface BeadsInstance {
   on: Hooks['on']
   emit: Hooks['emit']
   emitAsync: Hooks['emitAsync']
+  watch(options?: WatcherOptions): Promise<void>
+  unwatch(): Promise<void>
+  isWatching(): boolean
   path: string
 }
 
@@ -37,18 +56,87 @@ export function Beads(options: BeadsOptions = {}): BeadsInstance {
   // Normalize path - if it doesn't end with .beads, assume it's the project root
   const beadsDir = path.endsWith('.beads') ? path : `${path}/.beads`
 
-  const issues = createIssuesApi(beadsDir)
-  const epics = createEpicsApi(beadsDir)
+  // Shared with every other API on the same store, so reads never drift apart
+  const cache = getIssueCache(beadsDir, { store: options.store, source: options.source })
+  const issues = createIssuesApi(beadsDir, { cache })
+  const epics = createEpicsApi(beadsDir, { cache })
   const hooks = createHooks()
 
-  return {
+  let watcher: Watcher | null = null
+  // Dispatch chain - keeps hook calls in watcher event order
+  let dispatching: Promise<void> = Promise.resolve()
+
+  async function emitSafe(name: string, args: unknown[]): Promise<void> {
+    try {
+      await hooks.emitAsync(name, ...args)
+    } catch (error) {
+      console.error(`Hook error for ${name}:`, error)
+    }
+  }
+
+  async function dispatch(event: WatcherEvent): Promise<void> {
+    for (const name of issueEventNames(event)) {
+      const args = name === 'issue.updated' ? [event.issue, event.changes] : [event.issue]
+      await emitSafe(name, args)
+    }
+  }
+
+  async function dispatchSnapshot(snapshot: WatcherSnapshot): Promise<void> {
+    for (const derived of deriveEvents(snapshot.previous, snapshot.current)) {
+      await emitSafe(derived.name, derivedEventArgs(derived))
+    }
+  }
+
+  const instance: BeadsInstance = {
     issues,
     epics,
     on: hooks.on,
     emit: hooks.emit,
     emitAsync: hooks.emitAsync,
+
+    async watch(watchOptions?: WatcherOptions): Promise<void> {
+      if (watcher) return
+
+      // A given store is watched directly; otherwise issues.jsonl is
+      watcher = createWatcher(beadsDir, options.store ? { ...watchOptions, store: options.store } : watchOptions)
+      watcher.on('issue', (event) => {
+        dispatching = dispatching.then(() => dispatch(event))
+      })
+      watcher.on('change', (snapshot) => {
+        dispatching = dispatching.then(() => dispatchSnapshot(snapshot))
+      })
+      watcher.on('error', (error) => {
+        console.error('Watcher error:', error)
+      })
+
+      await watcher.start()
+    },
+
+    async unwatch(): Promise<void> {
+      if (!watcher) return
+
+      await watcher.stop()
+      watcher = null
+
+      // Let in-flight hooks finish before returning
+      await dispatching
+    },
+
+    isWatching(): boolean {
+      return watcher?.isRunning() ?? false
+    },
+
     path: beadsDir,
   }
+
+  if (options.watch) {
+    const watchOptions = typeof options.watch === 'object' ? options.watch : undefined
+    instance.watch(watchOptions).catch((error) => {
+      console.error('Watcher error:', error)
+    })
+  }
+
+  return instance
 }
 
 /**
@@ -0,0 +1,168 @@
+/**
+ * Shared issue cache
+ * One indexed snapshot per store, shared by every API reading through it,
+ * reloaded when the store's stamp changes or after a mutation
+ */
+
+import { resolve } from 'path'
+import type { Issue, IssueStatus } from './types'
+import { DEFAULT_SOURCE, type IssueSource } from './source'
+import { createBdStore, type BeadsStore } from './store'
+import type { MutationPlan } from './plan'
+
+/**
+ * Issues indexed for constant-time lookups
+ */
+export interface IssueIndex {
+  all: Issue[]
+  byId: Map<string, Issue>
+  byStatus: Map<IssueStatus, Issue[]>
+  byAssignee: Map<string, Issue[]>
+  byLabel: Map<string, Issue[]>
+}
+
+/**
+ * Cache instance
+ */
+export interface IssueCache {
+  /** The store the cache reads */
+  store: BeadsStore
+  /** Current snapshot, reloaded first when the store's issues changed */
+  snapshot(): Promise<IssueIndex>
+  /** Drop the snapshot so the next read reloads (e.g. after a mutation) */
+  invalidate(): void
+}
+
+function addTo<K>(map: Map<K, Issue[]>, key: K, issue: Issue): void {
+  const list = map.get(key)
+  if (list) list.push(issue)
+  else map.set(key, [issue])
+}
+
+/**
+ * Build the lookup maps for a list of issues
+ */
+export function indexIssues(issues: Issue[]): IssueIndex {
+  const index: IssueIndex = {
+    all: issues,
+    byId: new Map(),
+    byStatus: new Map(),
+    byAssignee: new Map(),
+    byLabel: new Map(),
+  }
+
+  for (const issue of issues) {
+    index.byId.set(issue.id, issue)
+    addTo(index.byStatus, issue.status, issue)
+    if (issue.assignee) addTo(index.byAssignee, issue.assignee, issue)
+    for (const label of issue.labels ?? []) addTo(index.byLabel, label, issue)
+  }
+  return index
+}
+
+/**
+ * Create a cache over a store
+ * Stores without a stamp are only reloaded when the cache is invalidated
+ */
+export function createIssueCache(store: BeadsStore): IssueCache {
+  let current: { stamp: string | null; index: IssueIndex } | null = null
+  let loading: Promise<IssueIndex> | null = null
+  // Bumped by invalidate() so loads started before it are not kept
+  let generation = 0
+
+  function load(): Promise<IssueIndex> {
+    const started = generation
+    const promise = (async () => {
+      const stamp = store.stamp ? await store.stamp() : null
+      const index = indexIssues(await store.load())
+      if (started === generation) current = { stamp, index }
+      return index
+    })()
+
+    const done = () => {
+      if (loading === promise) loading = null
+    }
+    loading = promise
+    promise.then(done, done)
+    return promise
+  }
+
+  return {
+    store,
+
+    async snapshot(): Promise<IssueIndex> {
+      if (current) {
+        if (!store.stamp) return current.index
+        const { index, stamp } = current
+        if ((await store.stamp()) === stamp) return index
+      }
+      return loading ?? load()
+    },
+
+    invalidate(): void {
+      generation++
+      current = null
+      loading = null
+    },
+  }
+}
+
+/**
+ * Read a cache's snapshot with a dry-run plan applied
+ * The planned view is rebuilt only when the snapshot or the plan changes
+ */
+export function plannedSnapshot(cache: IssueCache, plan?: MutationPlan): () => Promise<IssueIndex> {
+  let planned: { base: IssueIndex; size: number; index: IssueIndex } | null = null
+
+  return async () => {
+    const index = await cache.snapshot()
+    if (!plan) return index
+
+    const size = plan.list().length
+    if (planned?.base !== index || planned.size !== size) {
+      planned = { base: index, size, index: indexIssues(plan.apply(index.all)) }
+    }
+    return planned.index
+  }
+}
+
+// Caches shared by the APIs of a process
+const storeCaches = new WeakMap<BeadsStore, IssueCache>()
+const dirCaches = new Map<string, IssueCache>()
+
+function dirCacheKey(beadsDir: string, source: IssueSource): string {
+  return `${resolve(beadsDir)}:${source}`
+}
+
+/**
+ * Shared cache for a store, or for the bd store of a beads directory and
+ * source when no store is given
+ */
+export function getIssueCache(beadsDir: string, options: { store?: BeadsStore; source?: IssueSource } = {}): IssueCache {
+  const { store, source = DEFAULT_SOURCE } = options
+
+  if (store) {
+    let cache = storeCaches.get(store)
+    if (!cache) {
+      cache = createIssueCache(store)
+      storeCaches.set(store, cache)
+    }
+    return cache
+  }
+
+  const key = dirCacheKey(beadsDir, source)
+  let cache = dirCaches.get(key)
+  if (!cache) {
+    cache = createIssueCache(createBdStore(beadsDir, { source }))
+    dirCaches.set(key, cache)
+  }
+  return cache
+}
+
+/**
+ * Drop the shared cache of a beads directory and source, e.g. when a daemon
+ * stops; APIs still holding it keep working, but no longer share it
+ */
+export function disposeIssueCache(beadsDir: string, options: { source?: IssueSource } = {}): void {
+  dirCaches.delete(dirCacheKey(beadsDir, options.source ?? DEFAULT_SOURCE))
+}
@@ -3,11 +3,27 @@
  * Watches for changes and executes handlers
  */
 
-import { createWatcher, type WatcherEvent } from './watcher'
-import { createScanner, type HandlerInfo } from './scanner'
-import { createRuntime, type HandlerFn } from './runtime'
-import { Workflows } from './workflows'
-import type { Issue } from './types'
+import { readFile, writeFile, stat } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { createWatcher, diffEvents, CHECKPOINT_FILE, type WatcherEvent, type WatcherSnapshot } from './watcher'
+import { createScanner, compareHandlers, type HandlerInfo, type ScanDiagnostic } from './scanner'
+import { createRuntime, loadHandlerModule, type HandlerFn, type EventData, type ExecutionResult, type ExecuteOptions } from './runtime'
+import { createIssuesApi } from './issues'
+import { readIssuesFromJsonl, formatDiagnostic, type ReadResult } from './reader'
+import { createEpicsApi, calculateEpicProgress } from './epics'
+import { issueEventNames, deriveEvents, derivedEventData, eventVersion } from './events'
+import { Workflows, toRecordEvent, fromRecordEvent, type WorkflowTrigger, type WorkflowRecord, type RecordInput, type RecordedEventData, type RetryInfo } from './workflows'
+import { createScheduler, CATCH_UP_POLICIES, MAX_MISSED_RUNS, type ScheduledRun, type ScheduledJobRun, type CatchUpPolicy } from './scheduler'
+import { parseCron, runsBetween, validateTimeZone } from './cron'
+import { getScheduledHandlers, type ScheduleHandler } from './schedule'
+import { parseHandlerConfig, matchesFilter, retryDelay, type HandlerConfig } from './config'
+import { createDispatchQueue } from './queue'
+import { writeRunLog, readRunLog } from './logs'
+import { createMutationPlan, formatMutation, type PlannedMutation } from './plan'
+import type { Changes, Issue } from './types'
+import { ISSUE_SOURCES, type IssueSource } from './source'
+import { disposeIssueCache } from './cache'
 
 /**
  * CLI options
@@ -16,15 +32,54 @@ export interface DaemonOptions {
   path: string
   verbose?: boolean
   once?: boolean
+  /** Git ref to diff against in once mode; runOnce rejects when it is not a commit */
+  since?: string
+  /** File holding the previous issues.jsonl to diff against in once mode */
+  before?: string
+  /** Trigger recorded in workflows.jsonl (default: 'daemon') */
+  trigger?: WorkflowTrigger
+  /** Default policy for scheduled runs missed while stopped (default: 'once') */
+  catchUp?: CatchUpPolicy
+  /** Run handlers in worker threads unless their config says otherwise */
+  isolate?: boolean
+  /** Most events dispatched at the same time (default: 4) */
+  concurrency?: number
+  /** Where handlers' issues are read from (default: 'auto') */
+  source?: IssueSource
+  /** Queued events at which the daemon stops reading new changes (default: 1000) */
+  maxQueued?: number
+  /**
+   * Plan issue mutations instead of running bd (see getPlan)
+   * Nothing is written to the beads directory: no records, logs or checkpoint
+   */
+  dryRun?: boolean
   onHandlerExecuted?: (event: string, result: { success: boolean }) => void
 }
 
+/**
+ * Summary of a single pass
+ */
+export interface RunSummary {
+  events: number
+  executed: number
+  failed: number
+}
+
 /**
  * Daemon instance
  */
 export interface Daemon {
   start(): Promise<void>
   stop(): Promise<void>
+  runOnce(): Promise<RunSummary>
+  /** Run every scheduled handler for a cron expression now */
+  runSchedule(cron: string, triggeredAt?: Date): Promise<RunSummary>
+  getSchedules(): ScheduledRun[]
+  /** Problems with handler files found by the last scan */
+  getDiagnostics(): ScanDiagnostic[]
+  retry(info: RetryInfo): Promise<ExecutionResult | null>
+  /** Mutations planned by handlers so far (dry run only) */
+  getPlan(): PlannedMutation[]
   isRunning(): boolean
   getHandlerCount(): number
 }
@@ -33,12 +88,64 @@ export interface Daemon {
  * Parsed command
  */
 export interface Command {
-  command: 'run' | 'list' | 'retry'
+  command: 'run' | 'list' | 'retry' | 'logs' | 'validate'
   once?: boolean
+  since?: string
+  before?: string
+  catchUp?: CatchUpPolicy
+  isolate?: boolean
+  concurrency?: number
+  source?: IssueSource
+  dryRun?: boolean
   failed?: boolean
   issue?: string
   event?: string
   allFailed?: boolean
+  /** Run id or issue id for the logs command */
+  target?: string
+  /** validate: fail on warnings too */
+  strict?: boolean
+}
+
+/**
+ * Parse a catch-up policy, returning undefined for unknown values
+ */
+function parseCatchUp(value: unknown): CatchUpPolicy | undefined {
+  return CATCH_UP_POLICIES.find((policy) => policy === value)
+}
+
+/**
+ * Parse an issue source, returning undefined for unknown values
+ */
+function parseSource(value: unknown): IssueSource | undefined {
+  return ISSUE_SOURCES.find((source) => source === value)
+}
+
+/**
+ * Parse flags for the run command
+ */
+function parseRunFlags(cmd: Command, args: string[], startIdx: number): void {
+  for (let i = startIdx; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === '--once') {
+      cmd.once = true
+    } else if (arg === '--since') {
+      cmd.since = args[++i]
+    } else if (arg === '--before') {
+      cmd.before = args[++i]
+    } else if (arg === '--catch-up') {
+      cmd.catchUp = parseCatchUp(args[++i])
+    } else if (arg === '--source') {
+      cmd.source = parseSource(args[++i])
+    } else if (arg === '--isolate') {
+      cmd.isolate = true
+    } else if (arg === '--dry-run') {
+      cmd.dryRun = true
+    } else if (arg === '--concurrency') {
+      const value = Number(args[++i])
+      cmd.concurrency = Number.isInteger(value) && value > 0 ? value : undefined
+    }
+  }
 }
 
 /**
@@ -77,21 +184,18 @@ export function parseCommand(args: string[]): Command {
         }
       }
     }
+  } else if (firstArg === 'validate') {
+    cmd.command = 'validate'
+    cmd.strict = args.includes('--strict')
+  } else if (firstArg === 'logs') {
+    cmd.command = 'logs'
+    cmd.target = args.slice(1).find((arg) => !arg.startsWith('-'))
   } else if (firstArg === 'run' || !firstArg.startsWith('-')) {
     cmd.command = 'run'
-    const startIdx = firstArg === 'run' ? 1 : 0
-    for (let i = startIdx; i < args.length; i++) {
-      if (args[i]! === '--once') {
-        cmd.once = true
-      }
-    }
+    parseRunFlags(cmd, args, firstArg === 'run' ? 1 : 0)
   } else {
     // Handle flags for default run command
-    for (let i = 0; i < args.length; i++) {
-      if (args[i]! === '--once') {
-        cmd.once = true
-      }
-    }
+    parseRunFlags(cmd, args, 0)
   }
 
   return cmd
@@ -116,96 +220,767 @@ export function parseArgs(args: string[]): { path?: string; verbose: boolean } {
   return result
 }
 
+/**
+ * Run a git command and return stdout, or null on failure
+ */
+async function git(args: string[], cwd: string): Promise<string | null> {
+  try {
+    const proc = Bun.spawn(['git', ...args], { cwd, stdout: 'pipe', stderr: 'pipe' })
+    const stdout = await new Response(proc.stdout).text()
+    const exitCode = await proc.exited
+    return exitCode === 0 ? stdout : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolve the commit SHA recorded with workflow runs
+ */
+async function resolveCommit(beadsDir: string): Promise<string> {
+  if (process.env.GITHUB_SHA) return process.env.GITHUB_SHA
+  const sha = await git(['rev-parse', 'HEAD'], beadsDir)
+  return sha?.trim() ?? ''
+}
+
+/**
+ * Files in the beads directory that register every() handlers
+ */
+const SCHEDULE_FILES = ['schedules.ts', 'schedules.js']
+
+/**
+ * Resolve the trigger recorded with workflow runs from the environment
+ */
+function resolveTrigger(): WorkflowTrigger {
+  const event = process.env.GITHUB_EVENT
+  if (event === 'push' || event === 'schedule' || event === 'workflow_dispatch') {
+    return event
+  }
+  return 'daemon'
+}
+
+/**
+ * Identity of one recorded handler attempt
+ */
+interface RunInfo {
+  /** Record id, also naming the run's log file */
+  id: string
+  attempt?: number
+  retryOf?: string
+  /** Log path relative to the beads directory */
+  log?: string
+}
+
+/**
+ * Runs a task once a slot is free
+ */
+type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Create a limiter allowing at most `limit` tasks at the same time
+ */
+function createLimiter(limit: number): Limiter {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async (task) => {
+    if (active < limit) {
+      active++
+    } else {
+      // The finishing task hands its slot over directly
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+    try {
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
+
+/**
+ * Event handler loaded from an on.*.ts file or a workflows/on.<event>/ directory
+ */
+interface LoadedHandler {
+  /** Unique name recorded in workflows.jsonl */
+  name: string
+  path: string
+  event: string
+  handler: HandlerFn
+  order?: number
+  config: HandlerConfig
+  /** Set when the config limits concurrency */
+  limit?: Limiter
+}
+
+/**
+ * Scheduled handler loaded from an every.*.ts file or an every() registration
+ */
+interface LoadedSchedule {
+  name: string
+  /** Unset for every() registrations, which always run in-process */
+  path?: string
+  cron: string
+  handler: ScheduleHandler
+  catchUp?: CatchUpPolicy
+  timezone?: string
+  config: HandlerConfig
+  limit?: Limiter
+}
+
 /**
  * Create a workflow daemon
  */
 export function createDaemon(options: DaemonOptions): Daemon {
-  const { path: beadsDir, verbose, once, onHandlerExecuted } = options
+  const { path: beadsDir, verbose, once, since, before, dryRun, source, onHandlerExecuted } = options
+  const trigger = options.trigger ?? 'daemon'
 
   let running = false
-  let handlers: Map<string, HandlerInfo> = new Map()
-  let loadedHandlers: Map<string, HandlerFn> = new Map()
+  let handlerCount = 0
+  // Event handlers in execution order, keyed by event
+  const loadedHandlers = new Map<string, LoadedHandler[]>()
+  // Scheduled handlers from every.*.ts files and every() registrations
+  const scheduledHandlers: LoadedSchedule[] = []
+  const diagnostics: ScanDiagnostic[] = []
+  // Executions currently running, keyed by issue/event/handler/version
+  const inFlight = new Set<string>()
+  // Dispatches queued for the change the watcher is processing
+  const pendingDispatches: Promise<void>[] = []
 
-  const watcher = createWatcher(beadsDir)
+  const watcher = createWatcher(beadsDir, { checkpoint: !dryRun })
   const scanner = createScanner(beadsDir)
-  const runtime = createRuntime(beadsDir)
+  const plan = dryRun ? createMutationPlan() : undefined
+  const runtime = createRuntime(beadsDir, { plan, source })
+  const workflows = Workflows(beadsDir)
+  const scheduler = createScheduler({ catchUp: options.catchUp })
+  // Events run concurrently, but in order per issue
+  const queue = createDispatchQueue({ concurrency: options.concurrency, maxQueued: options.maxQueued })
+
+  // Set while a single pass counts its runs
+  let pass: RunSummary | null = null
+  let commit: string | null = null
 
   async function loadHandlers(): Promise<void> {
     const handlerInfos = await scanner.scan()
-    handlers = scanner.getHandlers()
+    handlerCount = handlerInfos.length
     loadedHandlers.clear()
+    scheduledHandlers.length = 0
+    diagnostics.length = 0
+
+    const schedulePaths = new Set(scanner.getScheduleHandlers().map((info) => info.path))
+    const scanDiagnostics = scanner.getDiagnostics()
 
     for (const info of handlerInfos) {
       try {
-        const module = await import(info.path)
+        const module = await loadHandlerModule(info.path)
         if (typeof module.default === 'function') {
-          loadedHandlers.set(info.event, module.default)
+          const config = loadConfig(info, module)
+          if (!config) continue
+
+          if (schedulePaths.has(info.path)) {
+            loadSchedule(info, module, config, scanDiagnostics)
+          } else {
+            const list = loadedHandlers.get(info.event) ?? []
+            list.push({
+              name: info.name,
+              path: info.path,
+              event: info.event,
+              handler: module.default as HandlerFn,
+              // An exported order takes precedence over the filename prefix
+              order: typeof module.order === 'number' ? module.order : info.order,
+              config,
+              limit: config.concurrency ? createLimiter(config.concurrency) : undefined,
+            })
+            loadedHandlers.set(info.event, list)
+          }
           if (verbose) {
-            console.log(`Loaded handler: ${info.event}`)
+            console.log(`Loaded handler: ${info.name} (${info.event})`)
           }
         }
       } catch (error) {
         console.error(`Failed to load handler ${info.path}:`, error)
       }
     }
+
+    for (const list of loadedHandlers.values()) {
+      list.sort(compareHandlers)
+    }
+
+    await loadRegistrations()
   }
 
-  async function handleIssueEvent(event: WatcherEvent): Promise<void> {
-    const eventName = `issue.${event.type}`
-    const handler = loadedHandlers.get(eventName)
+  /**
+   * Report a handler file that cannot be loaded
+   */
+  function report(info: HandlerInfo, message: string): void {
+    diagnostics.push({ path: info.path, filename: info.filename, message })
+    console.error(`Skipping ${info.filename}: ${message}`)
+  }
+
+  /**
+   * Read the `config` export of a handler module
+   * Returns null when the config is invalid or disables the handler
+   */
+  function loadConfig(info: HandlerInfo, module: Record<string, unknown>): HandlerConfig | null {
+    let config: HandlerConfig
+    try {
+      config = parseHandlerConfig(module.config)
+    } catch (error) {
+      report(info, error instanceof Error ? error.message : String(error))
+      return null
+    }
 
-    if (handler) {
+    if (config.enabled === false) {
       if (verbose) {
-        console.log(`Executing handler for ${eventName}:`, event.issue.id)
+        console.log(`Handler disabled: ${info.name}`)
       }
+      return null
+    }
 
-      const result = await runtime.execute(eventName, handler, {
-        issue: event.issue,
-        previousIssue: event.previousIssue,
-      })
+    return config
+  }
+
+  /**
+   * Collect a scheduled handler from an every.*.ts module
+   * An exported `cron` overrides the schedule derived from the filename
+   */
+  function loadSchedule(
+    info: HandlerInfo,
+    module: Record<string, unknown>,
+    config: HandlerConfig,
+    scanDiagnostics: ScanDiagnostic[]
+  ): void {
+    const cron = typeof module.cron === 'string' ? module.cron.trim().split(/\s+/).join(' ') : info.cron
+    if (!cron) {
+      const scanned = scanDiagnostics.find((d) => d.path === info.path)
+      report(info, scanned?.message ?? 'no schedule')
+      return
+    }
+
+    try {
+      parseCron(cron)
+    } catch (error) {
+      report(info, error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    const catchUp = parseCatchUp(module.catchUp)
+    if (module.catchUp !== undefined && !catchUp) {
+      console.error(`Invalid catchUp "${module.catchUp}" in ${info.path}, expected ${CATCH_UP_POLICIES.join(', ')}`)
+    }
+
+    const timezone = typeof module.timezone === 'string' ? module.timezone : undefined
+    if (timezone) {
+      try {
+        validateTimeZone(timezone)
+      } catch (error) {
+        report(info, error instanceof Error ? error.message : String(error))
+        return
+      }
+    }
+
+    scheduledHandlers.push({
+      name: info.name,
+      path: info.path,
+      cron,
+      handler: module.default as ScheduleHandler,
+      catchUp,
+      timezone,
+      config,
+      limit: config.concurrency ? createLimiter(config.concurrency) : undefined,
+    })
+  }
+
+  /**
+   * Import the schedules file (if any) and collect every() registrations
+   */
+  async function loadRegistrations(): Promise<void> {
+    for (const file of SCHEDULE_FILES) {
+      const path = join(beadsDir, file)
+      try {
+        await stat(path)
+      } catch {
+        continue
+      }
+      try {
+        // Imported once per process - every() registrations are global
+        await import(path)
+      } catch (error) {
+        console.error(`Failed to load schedules ${path}:`, error)
+      }
+    }
+
+    for (const { cron, handler, catchUp, timezone } of getScheduledHandlers()) {
+      scheduledHandlers.push({ name: `every('${cron}')`, cron, handler, catchUp, timezone, config: {} })
+    }
+  }
+
+  /**
+   * Get the scheduled time of the last successful run of each scheduled handler
+   */
+  async function lastScheduleRuns(): Promise<Map<string, Date>> {
+    const lastRuns = new Map<string, Date>()
+
+    for (const record of await workflows.list({ type: 'schedule', status: 'success' })) {
+      const time = record.type === 'schedule' ? (record.scheduled_at ?? record.triggered_at) : undefined
+      if (!time) continue
+      const at = new Date(time)
+      const previous = lastRuns.get(record.handler)
+      if (!previous || at > previous) {
+        lastRuns.set(record.handler, at)
+      }
+    }
+
+    return lastRuns
+  }
+
+  /**
+   * Register scheduled handlers with the scheduler
+   * Handlers with a recorded run are caught up on fire times missed since
+   */
+  async function scheduleHandlers(): Promise<void> {
+    scheduler.clear()
+    const lastRuns = await lastScheduleRuns()
+
+    for (const scheduled of scheduledHandlers) {
+      try {
+        scheduler.add({
+          name: scheduled.name,
+          cron: scheduled.cron,
+          timezone: scheduled.timezone,
+          catchUp: scheduled.catchUp,
+          lastRunAt: lastRuns.get(scheduled.name),
+          run: async (run) => {
+            const result = await executeSchedule(scheduled, run)
+            return result.success
+          },
+        })
+      } catch (error) {
+        console.error(`Failed to schedule ${scheduled.name}:`, error)
+      }
+    }
+  }
+
+  async function getCommit(): Promise<string> {
+    if (commit === null) {
+      commit = await resolveCommit(beadsDir)
+    }
+    return commit
+  }
 
-      if (onHandlerExecuted) {
-        onHandlerExecuted(eventName, result)
+  /**
+   * Whether a handler runs in a worker thread
+   */
+  function isolated(loaded: LoadedHandler | LoadedSchedule): boolean {
+    return loaded.config.isolate ?? options.isolate ?? false
+  }
+
+  /**
+   * Save the logs of a run under its record id
+   * Returns the log path for the record, or undefined when nothing was logged
+   */
+  async function saveLogs(id: string, result: ExecutionResult): Promise<string | undefined> {
+    if (dryRun || !result.logs?.length) return undefined
+    try {
+      return await writeRunLog(beadsDir, id, result.logs)
+    } catch (error) {
+      console.error(`Failed to write logs for run ${id}:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * Record a run in workflows.jsonl
+   * A dry run only builds the record, so the run is neither marked as done nor retried later
+   */
+  function saveRecord(input: RecordInput): Promise<WorkflowRecord> {
+    if (dryRun) {
+      return Promise.resolve({ ...input, triggered_at: new Date().toISOString() } as WorkflowRecord)
+    }
+    return workflows.record(input)
+  }
+
+  /**
+   * Run a handler with its configured timeout, concurrency limit and retries
+   * Every attempt is recorded with its logs; a retry points at the attempt it follows
+   */
+  async function runAttempts(
+    loaded: LoadedHandler | LoadedSchedule,
+    retryOf: string | undefined,
+    invoke: (options: ExecuteOptions) => Promise<ExecutionResult>,
+    record: (result: ExecutionResult, run: RunInfo) => Promise<WorkflowRecord>
+  ): Promise<ExecutionResult> {
+    const { retries = 0, timeoutMs, backoff, lowMemory } = loaded.config
+    const limit = loaded.limit ?? ((task) => task())
+
+    for (let n = 1; ; n++) {
+      const result = await limit(() => invoke({ timeoutMs, lowMemory }))
+      const id = randomUUID()
+      const log = await saveLogs(id, result)
+      const recorded = await record(result, { id, attempt: retries > 0 ? n : undefined, retryOf, log })
+
+      if (result.success || n > retries) {
+        return result
       }
 
-      if (!result.success && verbose) {
-        console.error(`Handler error for ${eventName}:`, result.error)
+      const delay = retryDelay(backoff, n)
+      if (verbose) {
+        console.log(`Retrying ${loaded.name} in ${delay}ms (attempt ${n + 1} of ${retries + 1}): ${result.error}`)
       }
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      retryOf = recorded.id
     }
   }
 
-  watcher.on('issue', handleIssueEvent)
+  /**
+   * Execute a handler for an event and record the run in workflows.jsonl
+   */
+  async function execute(
+    loaded: LoadedHandler,
+    data: EventData,
+    run: { version: string; retryOf?: string }
+  ): Promise<ExecutionResult> {
+    const eventName = loaded.event
+    const handler = loaded.handler
+
+    if (verbose) {
+      console.log(`Executing ${loaded.name} for ${eventName}:`, data.issue?.id)
+    }
+
+    const result = await runAttempts(
+      loaded,
+      run.retryOf,
+      (options) =>
+        isolated(loaded)
+          ? runtime.executeIsolated(eventName, loaded.path, data, options)
+          : runtime.execute(eventName, handler, data, options),
+      async (outcome, { id, attempt, retryOf, log }) =>
+        saveRecord({
+          id,
+          type: 'issue',
+          issue: data.issue?.id ?? '',
+          event: toRecordEvent(eventName),
+          version: run.version,
+          status: outcome.success ? 'success' : 'failed',
+          handler: loaded.name,
+          trigger,
+          commit: await getCommit(),
+          duration: outcome.duration ?? 0,
+          error: outcome.error,
+          timed_out: outcome.timedOut,
+          attempt,
+          retry_of: retryOf,
+          log,
+          event_data: outcome.success ? undefined : recordEventData(data),
+        })
+    )
+
+    if (onHandlerExecuted) {
+      onHandlerExecuted(eventName, result)
+    }
+
+    if (!result.success && verbose) {
+      console.error(`Handler error for ${loaded.name}:`, result.error)
+    }
+
+    return result
+  }
+
+  /**
+   * Execute a scheduled handler and record the run in workflows.jsonl
+   */
+  async function executeSchedule(scheduled: LoadedSchedule, run: ScheduledJobRun, retryOf?: string): Promise<ExecutionResult> {
+    if (verbose) {
+      const missed = run.missedRuns.length > 0 ? `, ${run.missedRuns.length} missed run(s)` : ''
+      console.log(`Executing scheduled handler ${scheduled.name} (${scheduled.cron})${missed}`)
+    }
+
+    const result = await runAttempts(
+      scheduled,
+      retryOf,
+      (options) =>
+        scheduled.path && isolated(scheduled)
+          ? runtime.executeScheduleIsolated(scheduled.cron, scheduled.path, run, options)
+          : runtime.executeSchedule(scheduled.cron, scheduled.handler, run, options),
+      async (outcome, { id, attempt, retryOf, log }) =>
+        saveRecord({
+          id,
+          type: 'schedule',
+          cron: scheduled.cron,
+          scheduled_at: run.triggeredAt.toISOString(),
+          timezone: scheduled.timezone,
+          status: outcome.success ? 'success' : 'failed',
+          handler: scheduled.name,
+          trigger,
+          commit: await getCommit(),
+          duration: outcome.duration ?? 0,
+          error: outcome.error,
+          timed_out: outcome.timedOut,
+          attempt,
+          retry_of: retryOf,
+          log,
+        })
+    )
+
+    if (onHandlerExecuted) {
+      onHandlerExecuted(scheduled.name, result)
+    }
+
+    if (!result.success && verbose) {
+      console.error(`Handler error for ${scheduled.name}:`, result.error)
+    }
+
+    return result
+  }
+
+  /**
+   * Run every handler for an event, in order
+   * Each handler is idempotent per issue/event/version unless it opted out
+   */
+  async function dispatch(eventName: string, data: EventData): Promise<void> {
+    for (const loaded of loadedHandlers.get(eventName) ?? []) {
+      await dispatchTo(loaded, data)
+    }
+  }
+
+  async function dispatchTo(loaded: LoadedHandler, data: EventData): Promise<void> {
+    const eventName = loaded.event
+    const issueId = data.issue?.id ?? ''
+    const version = eventVersion(data)
+    const key = `${issueId}|${eventName}|${loaded.name}|${version}`
+
+    if (!matchesFilter(loaded.config.when, data.issue)) {
+      if (verbose) {
+        console.log(`Skipping ${loaded.name} for ${issueId}: does not match config.when`)
+      }
+      return
+    }
+
+    // Skip duplicates: already running, or already succeeded for this version
+    if (loaded.config.idempotent !== false && inFlight.has(key)) {
+      if (verbose) {
+        console.log(`Skipping ${loaded.name} for ${issueId}: already running`)
+      }
+      return
+    }
+
+    inFlight.add(key)
+    try {
+      if (
+        loaded.config.idempotent !== false &&
+        (await workflows.wasExecuted(issueId, toRecordEvent(eventName), {
+          version,
+          handler: loaded.name,
+        }))
+      ) {
+        if (verbose) {
+          console.log(`Skipping ${loaded.name} for ${issueId}: already processed`)
+        }
+        return
+      }
+
+      const result = await execute(loaded, data, { version })
+
+      if (pass) {
+        pass.executed++
+        if (!result.success) pass.failed++
+      }
+    } finally {
+      inFlight.delete(key)
+    }
+  }
+
+  /**
+   * Rebuild handler event data from the current state of an issue and the
+   * data recorded with the failed run
+   */
+  async function loadEventData(eventName: string, issueId: string, recorded: RecordedEventData = {}): Promise<EventData | null> {
+    try {
+      const issues = createIssuesApi(beadsDir, { source })
+      const issue = await issues.get(issueId)
+      if (!issue) return null
+
+      if (eventName.startsWith('epic.')) {
+        const epics = createEpicsApi(beadsDir, { source })
+        const epic = await epics.get(issueId)
+        if (!epic) return null
+        const children = await epics.children(issueId)
+        return { issue, epic, children, progress: calculateEpicProgress(children) }
+      }
+
+      const data: EventData = { issue }
+      if (recorded.changes) {
+        data.changes = recorded.changes
+        data.previousIssue = previousState(issue, recorded.changes)
+      }
+      for (const role of ['blocker', 'dependency'] as const) {
+        const id = recorded[role]
+        if (!id) continue
+        const related = await issues.get(id)
+        if (!related) return null
+        data[role] = related
+      }
+      return data
+    } catch {
+      // issues.jsonl missing or unreadable
+      return null
+    }
+  }
+
+  /**
+   * Queue an event for dispatch, keyed by its issue so events of one issue run in order
+   * Waits while the queue is full
+   */
+  function enqueue(eventName: string, data: EventData): Promise<void> {
+    return queue.push(data.issue?.id ?? '', () => dispatch(eventName, data))
+  }
+
+  /**
+   * Queue an event of the change the watcher is processing, tracking its dispatch
+   */
+  function enqueueWatched(eventName: string, data: EventData): Promise<void> {
+    let finish!: () => void
+    pendingDispatches.push(new Promise<void>((resolve) => (finish = resolve)))
+    return queue.push(data.issue?.id ?? '', () => dispatch(eventName, data).finally(finish))
+  }
+
+  /**
+   * Queue the events of an issue change; once passes drain the queue
+   * themselves, so they use plain enqueue()
+   */
+  async function handleIssueEvent(event: WatcherEvent, push = enqueueWatched): Promise<void> {
+    for (const eventName of issueEventNames(event)) {
+      await push(eventName, {
+        issue: event.issue,
+        previousIssue: event.previousIssue,
+        changes: event.changes,
+      })
+    }
+  }
+
+  async function handleSnapshot(snapshot: WatcherSnapshot): Promise<void> {
+    for (const derived of deriveEvents(snapshot.previous, snapshot.current)) {
+      await enqueueWatched(derived.name, derivedEventData(derived))
+    }
+    // The watcher saves its checkpoint once this returns, so only after the
+    // change's handlers ran - a crash before then replays the change
+    await Promise.all(pendingDispatches.splice(0))
+  }
+
+  watcher.on('issue', (event) => handleIssueEvent(event))
+  watcher.on('change', handleSnapshot)
 
   watcher.on('error', (error) => {
     console.error('Watcher error:', error)
   })
 
+  /**
+   * Read the baseline issues.jsonl for a single pass
+   * Priority: --before file, --since git ref, saved checkpoint
+   */
+  async function readBaseline(): Promise<string | null> {
+    if (before) {
+      return readFile(before, 'utf-8')
+    }
+
+    if (since) {
+      // An unknown ref would replay every issue as new
+      if ((await git(['rev-parse', '--verify', '--quiet', `${since}^{commit}`], beadsDir)) === null) {
+        throw new Error(`--since ${since} is not a commit`)
+      }
+      // File may not exist at that ref - treat as empty
+      return (await git(['show', `${since}:./issues.jsonl`], beadsDir)) ?? ''
+    }
+
+    try {
+      return await readFile(join(beadsDir, CHECKPOINT_FILE), 'utf-8')
+    } catch {
+      return null
+    }
+  }
+
+  async function runOnce(): Promise<RunSummary> {
+    await loadHandlers()
+
+    let current: string
+    try {
+      current = await readFile(join(beadsDir, 'issues.jsonl'), 'utf-8')
+    } catch {
+      return { events: 0, executed: 0, failed: 0 }
+    }
+
+    const baseline = await readBaseline()
+    pass = { events: 0, executed: 0, failed: 0 }
+
+    try {
+      if (baseline === null) {
+        // No baseline yet - seed the checkpoint without replaying history
+        if (verbose) {
+          console.log(dryRun ? 'No baseline found' : 'No baseline found, saving checkpoint')
+        }
+      } else {
+        const { events, snapshot } = await diffEvents(baseline, current)
+        for (const event of events) {
+          pass.events++
+          await handleIssueEvent(event, enqueue)
+        }
+        for (const derived of deriveEvents(snapshot.previous, snapshot.current)) {
+          pass.events++
+          await enqueue(derived.name, derivedEventData(derived))
+        }
+        await queue.drain()
+      }
+
+      if (!dryRun) {
+        await writeFile(join(beadsDir, CHECKPOINT_FILE), current)
+      }
+
+      const { events, executed, failed } = pass
+      return { events, executed, failed }
+    } finally {
+      pass = null
+    }
+  }
+
   return {
     async start(): Promise<void> {
       if (running) return
 
-      await loadHandlers()
-
       if (once) {
-        // In once mode, just process current state and exit
+        // In once mode, process changes since the baseline and exit
         // No need to start watcher
+        await runOnce()
         running = false
         return
       }
 
+      await loadHandlers()
+      await scheduleHandlers()
+
       await watcher.start()
+      scheduler.start()
       running = true
 
       if (verbose) {
         console.log(`Daemon started, watching ${beadsDir}`)
-        console.log(`Loaded ${loadedHandlers.size} handler(s)`)
+        console.log(`Loaded ${handlerCount} handler(s)`)
+        for (const run of scheduler.getRuns()) {
+          const zone = run.timezone ? ` ${run.timezone}` : ''
+          console.log(`Scheduled ${run.name} (${run.cron}${zone}), next run ${run.next.toISOString()}`)
+        }
       }
     },
 
     async stop(): Promise<void> {
       if (!running) return
 
+      await scheduler.stop()
       await watcher.stop()
+      // Wait for queued and in-flight handlers
+      await queue.drain()
+      disposeIssueCache(beadsDir, { source })
       running = false
 
       if (verbose) {
@@ -213,16 +988,132 @@ export function createDaemon(options: DaemonOptions): Daemon {
       }
     },
 
+    runOnce,
+
+    async runSchedule(cron: string, triggeredAt: Date = new Date()): Promise<RunSummary> {
+      await loadHandlers()
+
+      const normalized = cron.trim().split(/\s+/).join(' ')
+      const summary: RunSummary = { events: 0, executed: 0, failed: 0 }
+      const lastRuns = await lastScheduleRuns()
+
+      for (const scheduled of scheduledHandlers) {
+        if (scheduled.cron !== normalized) continue
+        summary.events++
+
+        // Fire times since the last run, except the one this run is for
+        const lastRunAt = lastRuns.get(scheduled.name)
+        const missedRuns = lastRunAt
+          ? runsBetween(scheduled.cron, lastRunAt, triggeredAt, scheduled.timezone).slice(0, -1).slice(-MAX_MISSED_RUNS)
+          : []
+
+        const result = await executeSchedule(scheduled, {
+          triggeredAt,
+          lastRunAt,
+          missedRuns,
+          timezone: scheduled.timezone,
+        })
+        summary.executed++
+        if (!result.success) summary.failed++
+      }
+
+      return summary
+    },
+
+    getSchedules(): ScheduledRun[] {
+      return scheduler.getRuns()
+    },
+
+    getDiagnostics(): ScanDiagnostic[] {
+      return [...diagnostics]
+    },
+
+    async retry(info: RetryInfo): Promise<ExecutionResult | null> {
+      if (handlerCount === 0) {
+        await loadHandlers()
+      }
+
+      if (info.type === 'schedule') {
+        const scheduled = scheduledHandlers.find((s) => s.name === info.handler)
+        if (!scheduled) return null
+
+        // Rerun for the failed fire time, so a success settles that run
+        const triggeredAt = new Date(info.scheduledAt)
+        const lastRunAt = (await lastScheduleRuns()).get(scheduled.name)
+        return executeSchedule(
+          scheduled,
+          {
+            triggeredAt,
+            lastRunAt: lastRunAt && lastRunAt < triggeredAt ? lastRunAt : undefined,
+            missedRuns: [],
+            timezone: scheduled.timezone,
+          },
+          info.id
+        )
+      }
+
+      const eventName = fromRecordEvent(info.event)
+      const loaded = loadedHandlers.get(eventName)?.find((h) => h.name === info.handler)
+      if (!loaded) return null
+
+      const data = await loadEventData(eventName, info.issue, info.data)
+      if (!data) return null
+
+      return execute(loaded, data, { version: eventVersion(data), retryOf: info.id })
+    },
+
+    getPlan(): PlannedMutation[] {
+      return plan?.list() ?? []
+    },
+
     isRunning(): boolean {
       return running
     },
 
     getHandlerCount(): number {
-      return handlers.size
+      return handlerCount
     },
   }
 }
 
+/**
+ * What a retry needs of an event's data besides the issue
+ * Undefined when the issue is all there is
+ */
+function recordEventData(data: EventData): RecordedEventData | undefined {
+  const recorded: RecordedEventData = {
+    blocker: data.blocker?.id,
+    dependency: data.dependency?.id,
+    changes: data.changes,
+  }
+  return recorded.blocker || recorded.dependency || recorded.changes ? recorded : undefined
+}
+
+/**
+ * An issue as it was before the recorded changes
+ */
+function previousState(issue: Issue, changes: Changes): Issue {
+  const previous: Record<string, unknown> = { ...issue }
+  for (const [field, change] of Object.entries(changes)) {
+    if (change) previous[field] = change.from
+  }
+  return previous as unknown as Issue
+}
+
+/**
+ * Print the mutations a dry run planned
+ */
+function printPlan(mutations: PlannedMutation[]): void {
+  if (mutations.length === 0) {
+    console.log('Dry run: no mutations planned.')
+    return
+  }
+  console.log(`Dry run: ${mutations.length} planned mutation(s):`)
+  for (const mutation of mutations) {
+    console.log(`  ${formatMutation(mutation)}`)
+  }
+}
+
 /**
  * Main CLI entry point
  */
@@ -255,22 +1146,110 @@ export async function main(args: string[] = process.argv.slice(2)): Promise<void
 
   if (command.command === 'retry') {
     const workflows = Workflows(beadsDir)
+    let targets: RetryInfo[]
 
     if (command.allFailed) {
-      const failed = await workflows.listFailed()
-      console.log(`Found ${failed.length} failed executions to retry.`)
-      // TODO: implement actual retry logic
+      targets = await workflows.listRetryable()
+      console.log(`Found ${targets.length} failed executions to retry.`)
     } else if (command.issue && command.event) {
-      const retryInfo = await workflows.retry(command.issue, command.event)
-      if (retryInfo) {
-        console.log(`Retrying ${retryInfo.issue} ${retryInfo.event}...`)
-        // TODO: implement actual retry logic
-      } else {
+      // Every handler of the event whose latest attempt failed
+      const event = toRecordEvent(command.event)
+      targets = (await workflows.listRetryable()).filter(
+        (r) => r.issue === command.issue && r.event === event
+      )
+      if (targets.length === 0) {
         console.log(`No failed execution found for ${command.issue} ${command.event}`)
+        return
       }
     } else {
       console.log('Usage: beads-workflows retry <issue> <event>')
       console.log('       beads-workflows retry --all-failed')
+      return
+    }
+
+    const daemon = createDaemon({
+      path: beadsDir,
+      verbose: options.verbose,
+      trigger: resolveTrigger(),
+    })
+
+    let failed = 0
+    for (const retryInfo of targets) {
+      const target = retryInfo.type === 'schedule' ? `schedule ${retryInfo.cron} at ${retryInfo.scheduledAt}` : `${retryInfo.issue} ${retryInfo.event}`
+      console.log(`Retrying ${target} (${retryInfo.handler})...`)
+      const result = await daemon.retry(retryInfo)
+
+      if (!result) {
+        console.log(
+          retryInfo.type === 'schedule'
+            ? `  ✗ skipped: no scheduled handler ${retryInfo.handler}`
+            : `  ✗ skipped: no handler for ${retryInfo.event} or issue not found`
+        )
+        failed++
+      } else if (result.success) {
+        console.log('  ✓ succeeded')
+      } else {
+        console.log(`  ✗ failed: ${result.error}`)
+        failed++
+      }
+    }
+
+    if (failed > 0) {
+      process.exitCode = 1
+    }
+    return
+  }
+
+  if (command.command === 'validate') {
+    let result: ReadResult
+    try {
+      result = await readIssuesFromJsonl(beadsDir, {})
+    } catch (error) {
+      console.error(`Cannot read ${join(beadsDir, 'issues.jsonl')}: ${error instanceof Error ? error.message : error}`)
+      process.exitCode = 1
+      return
+    }
+
+    const { issues, diagnostics } = result
+    const errors = diagnostics.filter((d) => d.severity === 'error').length
+    const warnings = diagnostics.length - errors
+
+    for (const diagnostic of diagnostics) {
+      const issue = diagnostic.issueId ? ` (${diagnostic.issueId})` : ''
+      console.log(`issues.jsonl ${formatDiagnostic(diagnostic)}${issue}`)
+    }
+    console.log(`${issues.length} issue(s), ${errors} error(s), ${warnings} warning(s).`)
+
+    // Errors mean skipped lines; --strict also fails on invalid fields
+    if (errors > 0 || (command.strict && warnings > 0)) {
+      process.exitCode = 1
+    }
+    return
+  }
+
+  if (command.command === 'logs') {
+    if (!command.target) {
+      console.log('Usage: beads-workflows logs <run-id|issue>')
+      return
+    }
+
+    // A run id shows that run; an issue id shows every run for the issue
+    const records = await Workflows(beadsDir).list()
+    const run = records.find((r) => r.id === command.target)
+    const runs = (run ? [run] : records.filter((r) => r.type !== 'schedule' && r.issue === command.target)).filter(
+      (r) => r.log
+    )
+
+    if (runs.length === 0) {
+      console.log(`No logs found for ${command.target}`)
+      return
+    }
+
+    for (const record of runs) {
+      const status = record.status === 'success' ? '✓' : '✗'
+      const event = record.type === 'schedule' ? `schedule ${record.cron}` : record.event
+      console.log(`${status} ${record.triggered_at} ${event} (${record.handler}) ${record.id}`)
+      process.stdout.write((await readRunLog(beadsDir, record.id!)) ?? '(log file missing)\n')
     }
     return
   }
@@ -278,16 +1257,50 @@ export async function main(args: string[] = process.argv.slice(2)): Promise<void
   // Default: run command
   console.log('beads-workflows daemon')
   console.log(`Watching: ${beadsDir}`)
+  if (command.dryRun) {
+    console.log('Dry run: issue mutations are planned, not applied')
+  }
 
   const daemon = createDaemon({
     path: beadsDir,
     verbose: options.verbose,
     once: command.once,
+    since: command.since,
+    before: command.before,
+    trigger: resolveTrigger(),
+    catchUp: command.catchUp,
+    isolate: command.isolate,
+    concurrency: command.concurrency,
+    source: command.source,
+    dryRun: command.dryRun,
   })
 
   if (command.once) {
-    await daemon.start()
-    console.log('Single pass complete.')
+    let summary: RunSummary
+    try {
+      summary = await daemon.runOnce()
+    } catch (error) {
+      console.error(`Single pass failed: ${error instanceof Error ? error.message : error}`)
+      process.exitCode = 1
+      return
+    }
+    console.log(`Single pass complete: ${summary.events} event(s), ${summary.executed} handler run(s), ${summary.failed} failed.`)
+
+    // Scheduled GitHub Action runs also execute the handlers for their cron
+    const cron = process.env.GITHUB_SCHEDULE
+    if (cron) {
+      const scheduled = await daemon.runSchedule(cron)
+      console.log(`Schedule ${cron}: ${scheduled.executed} handler run(s), ${scheduled.failed} failed.`)
+      summary.failed += scheduled.failed
+    }
+
+    if (command.dryRun) {
+      printPlan(daemon.getPlan())
+    }
+
+    if (summary.failed > 0) {
+      process.exitCode = 1
+    }
     return
   }
 
@@ -295,11 +1308,13 @@ export async function main(args: string[] = process.argv.slice(2)): Promise<void
   process.on('SIGINT', async () => {
     console.log('\nShutting down...')
     await daemon.stop()
+    if (command.dryRun) printPlan(daemon.getPlan())
     process.exit(0)
   })
 
   process.on('SIGTERM', async () => {
     await daemon.stop()
+    if (command.dryRun) printPlan(daemon.getPlan())
     process.exit(0)
   })
 
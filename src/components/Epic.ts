@@ -2,40 +2,29 @@
  * Epic components - render epic data as markdown
  */
 
-import { readIssuesFromJsonl, findBeadsDir } from '../reader.js'
+import { loadIssues, type StoreProps } from './load.js'
 import type { Issue, Epic as EpicType } from '../types.js'
 
-export interface EpicProps {
+export interface EpicProps extends StoreProps {
   id: string
   showChildren?: boolean
 }
 
-export interface EpicsProps {
+export interface EpicsProps extends StoreProps {
   status?: 'open' | 'closed' | 'all'
   limit?: number
 }
 
-export interface EpicProgressProps {
+export interface EpicProgressProps extends StoreProps {
   id?: string
   all?: boolean
 }
 
-export interface EpicChildrenProps {
+export interface EpicChildrenProps extends StoreProps {
   id: string
   limit?: number
 }
 
-async function loadIssues(): Promise<Issue[]> {
-  const beadsDir = await findBeadsDir(process.cwd())
-  if (!beadsDir) return []
-
-  try {
-    return await readIssuesFromJsonl(beadsDir)
-  } catch {
-    return []
-  }
-}
-
 function renderProgressBar(percent: number, width: number = 20): string {
   const filled = Math.round((percent / 100) * width)
   const empty = width - filled
@@ -59,7 +48,7 @@ function calculateProgress(children: Issue[]): { total: number; closed: number;
 export async function Epic(props: EpicProps): Promise<string> {
   const { id, showChildren = true } = props
 
-  const issues = await loadIssues()
+  const issues = await loadIssues(props)
   const epic = issues.find(i => i.id === id)
 
   if (!epic) {
@@ -116,7 +105,7 @@ export async function Epic(props: EpicProps): Promise<string> {
 export async function Epics(props: EpicsProps = {}): Promise<string> {
   const { status = 'open', limit = 20 } = props
 
-  const issues = await loadIssues()
+  const issues = await loadIssues(props)
 
   let epics = issues.filter(i => i.type === 'epic')
 
@@ -157,7 +146,7 @@ export async function Epics(props: EpicsProps = {}): Promise<string> {
 Epic.Progress = async function Progress(props: EpicProgressProps = {}): Promise<string> {
   const { id, all = false } = props
 
-  const issues = await loadIssues()
+  const issues = await loadIssues(props)
 
   let epics = issues.filter(i => i.type === 'epic')
 
@@ -194,7 +183,7 @@ Epic.Progress = async function Progress(props: EpicProgressProps = {}): Promise<
 Epic.Children = async function Children(props: EpicChildrenProps): Promise<string> {
   const { id, limit = 20 } = props
 
-  const issues = await loadIssues()
+  const issues = await loadIssues(props)
 
   const epic = issues.find(i => i.id === id)
   if (!epic) {
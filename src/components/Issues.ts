@@ -2,24 +2,24 @@
  * Issues components - render issue data as markdown tables
  */
 
-import { readIssuesFromJsonl, findBeadsDir } from '../reader.js'
-import type { Issue, IssueStatus, IssueType, Priority } from '../types.js'
+import { loadIssues, type StoreProps } from './load.js'
+import { blockerIds, type Issue, type IssueStatus, type IssueType, type Priority } from '../types.js'
 
-export interface IssueProps {
+export interface IssueProps extends StoreProps {
   id: string
 }
 
-export interface IssuesReadyProps {
+export interface IssuesReadyProps extends StoreProps {
   limit?: number
   priority?: string
   assignee?: string
 }
 
-export interface IssuesBlockedProps {
+export interface IssuesBlockedProps extends StoreProps {
   limit?: number
 }
 
-export interface IssuesListProps {
+export interface IssuesListProps extends StoreProps {
   status?: IssueStatus | 'all'
   type?: IssueType
   priority?: string
@@ -77,26 +77,15 @@ function parsePriorityFilter(filter: string): Priority[] {
     .filter(p => !isNaN(p) && p >= 0 && p <= 4) as Priority[]
 }
 
-async function loadIssues(): Promise<Issue[]> {
-  const beadsDir = await findBeadsDir(process.cwd())
-  if (!beadsDir) return []
-
-  try {
-    return await readIssuesFromJsonl(beadsDir)
-  } catch {
-    return []
-  }
-}
-
 async function Ready(props: IssuesReadyProps = {}): Promise<string> {
   const { limit = 10, priority, assignee } = props
 
-  const allIssues = await loadIssues()
+  const allIssues = await loadIssues(props)
 
   let ready = allIssues.filter(issue => {
     if (issue.status !== 'open') return false
 
-    for (const depId of issue.dependsOn) {
+    for (const depId of blockerIds(issue)) {
       const dep = allIssues.find(i => i.id === depId)
       if (dep && dep.status !== 'closed') {
         return false
@@ -128,12 +117,12 @@ async function Ready(props: IssuesReadyProps = {}): Promise<string> {
 async function Blocked(props: IssuesBlockedProps = {}): Promise<string> {
   const { limit = 10 } = props
 
-  const allIssues = await loadIssues()
+  const allIssues = await loadIssues(props)
 
   let blocked = allIssues.filter(issue => {
     if (issue.status !== 'open') return false
 
-    for (const depId of issue.dependsOn) {
+    for (const depId of blockerIds(issue)) {
       const dep = allIssues.find(i => i.id === depId)
       if (dep && dep.status !== 'closed') {
         return true
@@ -157,7 +146,7 @@ async function Blocked(props: IssuesBlockedProps = {}): Promise<string> {
   ]
 
   for (const issue of blocked) {
-    const openBlockers = issue.dependsOn
+    const openBlockers = blockerIds(issue)
       .filter(depId => {
         const dep = allIssues.find(i => i.id === depId)
         return dep && dep.status !== 'closed'
@@ -181,7 +170,7 @@ async function Blocked(props: IssuesBlockedProps = {}): Promise<string> {
 async function List(props: IssuesListProps = {}): Promise<string> {
   const { status = 'open', type, priority, assignee, limit = 20 } = props
 
-  let issues = await loadIssues()
+  let issues = await loadIssues(props)
 
   if (status !== 'all') {
     issues = issues.filter(i => i.status === status)
@@ -217,7 +206,7 @@ async function List(props: IssuesListProps = {}): Promise<string> {
 export async function Issue(props: IssueProps): Promise<string> {
   const { id } = props
 
-  const allIssues = await loadIssues()
+  const allIssues = await loadIssues(props)
   const issue = allIssues.find(i => i.id === id)
 
   if (!issue) {
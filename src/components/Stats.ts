@@ -2,28 +2,17 @@
  * Stats component - project statistics as markdown
  */
 
-import { readIssuesFromJsonl, findBeadsDir } from '../reader.js'
-import type { Issue } from '../types.js'
+import { loadIssues, type StoreProps } from './load.js'
+import { blockerIds } from '../types.js'
 
-export interface StatsProps {
+export interface StatsProps extends StoreProps {
   detailed?: boolean
 }
 
-async function loadIssues(): Promise<Issue[]> {
-  const beadsDir = await findBeadsDir(process.cwd())
-  if (!beadsDir) return []
-
-  try {
-    return await readIssuesFromJsonl(beadsDir)
-  } catch {
-    return []
-  }
-}
-
 export async function Stats(props: StatsProps = {}): Promise<string> {
   const { detailed = false } = props
 
-  const issues = await loadIssues()
+  const issues = await loadIssues(props)
 
   if (issues.length === 0) {
     return '### Project Stats\n\n_No issues found_\n'
@@ -36,7 +25,7 @@ export async function Stats(props: StatsProps = {}): Promise<string> {
 
   const ready = issues.filter(issue => {
     if (issue.status !== 'open') return false
-    for (const depId of issue.dependsOn) {
+    for (const depId of blockerIds(issue)) {
       const dep = issues.find(i => i.id === depId)
       if (dep && dep.status !== 'closed') return false
     }
@@ -0,0 +1,25 @@
+/**
+ * Issue loading shared by the components
+ */
+
+import { readIssuesFromJsonl, findBeadsDir } from '../reader.js'
+import type { BeadsStore } from '../store.js'
+import type { Issue } from '../types.js'
+
+export interface StoreProps {
+  /** Store to read issues from (default: issues.jsonl of the nearest .beads directory) */
+  store?: BeadsStore
+}
+
+export async function loadIssues(props: StoreProps): Promise<Issue[]> {
+  if (props.store) return props.store.load()
+
+  const beadsDir = await findBeadsDir(process.cwd())
+  if (!beadsDir) return []
+
+  try {
+    return await readIssuesFromJsonl(beadsDir)
+  } catch {
+    return []
+  }
+}
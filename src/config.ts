@@ -0,0 +1,186 @@
+/**
+ * Handler configuration
+ * Parses the optional `export const config` of a handler module and
+ * provides the event filter and retry backoff the daemon applies
+ */
+
+import { isValidStatus, isValidType, isValidPriority, type Issue, type IssueStatus, type IssueType, type Priority } from './types'
+
+/**
+ * Issues a handler runs for; every field given must match
+ */
+export interface HandlerFilter {
+  type?: IssueType | IssueType[]
+  priority?: Priority | Priority[]
+  status?: IssueStatus | IssueStatus[]
+  /** The issue must carry every label listed */
+  labels?: string[]
+  assignee?: string | string[]
+}
+
+/**
+ * Delay between retry attempts
+ */
+export interface BackoffOptions {
+  /** 'exponential' doubles the delay after each attempt (default: 'exponential') */
+  type?: 'fixed' | 'exponential'
+  /** Delay before the first retry (default: 1000) */
+  delayMs?: number
+  /** Upper bound for exponential delays (default: 60000) */
+  maxDelayMs?: number
+}
+
+/**
+ * Configuration exported by a handler module as `config`
+ */
+export interface HandlerConfig {
+  /** Only run for issues matching the filter */
+  when?: HandlerFilter
+  /** Fail the run when the handler takes longer */
+  timeoutMs?: number
+  /** Extra attempts after a failed run (default: 0) */
+  retries?: number
+  backoff?: BackoffOptions
+  /** Most runs of the handler at the same time (default: unlimited) */
+  concurrency?: number
+  /** Set to false to skip loading the handler (default: true) */
+  enabled?: boolean
+  /** Run in a worker thread that is terminated on timeout (default: the daemon's isolate option) */
+  isolate?: boolean
+  /** Give the worker a smaller heap (isolated runs only) */
+  lowMemory?: boolean
+  /** Set to false to run on every event, even versions already handled (default: true) */
+  idempotent?: boolean
+}
+
+const DEFAULT_BACKOFF_DELAY = 1000
+const DEFAULT_BACKOFF_MAX = 60_000
+
+const CONFIG_KEYS = ['when', 'timeoutMs', 'retries', 'backoff', 'concurrency', 'enabled', 'isolate', 'lowMemory', 'idempotent']
+const FILTER_KEYS = ['type', 'priority', 'status', 'labels', 'assignee']
+const BACKOFF_KEYS = ['type', 'delayMs', 'maxDelayMs']
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], where: string): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`Invalid config: unknown ${where}option "${key}"`)
+    }
+  }
+}
+
+function checkBoolean(value: unknown, name: string): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new Error(`Invalid config: ${name} must be a boolean`)
+  }
+}
+
+function checkInteger(value: unknown, name: string, min: number): void {
+  if (value === undefined) return
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid config: ${name} must be an integer >= ${min}`)
+  }
+}
+
+/**
+ * Check a filter field holding one value or a list of values
+ */
+function checkValues(value: unknown, name: string, valid: (v: unknown) => boolean): void {
+  if (value === undefined) return
+  const values = Array.isArray(value) ? value : [value]
+  const bad = values.find((v) => !valid(v))
+  if (values.length === 0 || bad !== undefined) {
+    throw new Error(`Invalid config: bad when.${name} value ${JSON.stringify(bad ?? value)}`)
+  }
+}
+
+function parseFilter(value: unknown): HandlerFilter {
+  if (!isObject(value)) {
+    throw new Error('Invalid config: when must be an object')
+  }
+  checkKeys(value, FILTER_KEYS, 'when ')
+  checkValues(value.type, 'type', isValidType)
+  checkValues(value.priority, 'priority', isValidPriority)
+  checkValues(value.status, 'status', isValidStatus)
+  checkValues(value.assignee, 'assignee', (v) => typeof v === 'string')
+  if (value.labels !== undefined) {
+    if (!Array.isArray(value.labels) || !value.labels.every((l) => typeof l === 'string')) {
+      throw new Error('Invalid config: when.labels must be a list of strings')
+    }
+  }
+  return value as HandlerFilter
+}
+
+function parseBackoff(value: unknown): BackoffOptions {
+  if (!isObject(value)) {
+    throw new Error('Invalid config: backoff must be an object')
+  }
+  checkKeys(value, BACKOFF_KEYS, 'backoff ')
+  if (value.type !== undefined && value.type !== 'fixed' && value.type !== 'exponential') {
+    throw new Error(`Invalid config: backoff.type must be 'fixed' or 'exponential'`)
+  }
+  checkInteger(value.delayMs, 'backoff.delayMs', 0)
+  checkInteger(value.maxDelayMs, 'backoff.maxDelayMs', 0)
+  return value as BackoffOptions
+}
+
+/**
+ * Validate the `config` export of a handler module
+ * Returns an empty config when the module exports none
+ */
+export function parseHandlerConfig(value: unknown): HandlerConfig {
+  if (value === undefined) return {}
+  if (!isObject(value)) {
+    throw new Error('Invalid config: expected an object')
+  }
+
+  checkKeys(value, CONFIG_KEYS, '')
+  checkInteger(value.timeoutMs, 'timeoutMs', 1)
+  checkInteger(value.retries, 'retries', 0)
+  checkInteger(value.concurrency, 'concurrency', 1)
+  checkBoolean(value.enabled, 'enabled')
+  checkBoolean(value.isolate, 'isolate')
+  checkBoolean(value.lowMemory, 'lowMemory')
+  checkBoolean(value.idempotent, 'idempotent')
+
+  return {
+    ...(value as HandlerConfig),
+    when: value.when === undefined ? undefined : parseFilter(value.when),
+    backoff: value.backoff === undefined ? undefined : parseBackoff(value.backoff),
+  }
+}
+
+function matchesValue<T>(expected: T | T[] | undefined, actual: T | undefined): boolean {
+  if (expected === undefined) return true
+  if (actual === undefined) return false
+  return Array.isArray(expected) ? expected.includes(actual) : expected === actual
+}
+
+/**
+ * Check whether an issue passes a handler filter
+ * A missing filter matches every issue; a filter never matches a missing issue
+ */
+export function matchesFilter(filter: HandlerFilter | undefined, issue: Issue | undefined): boolean {
+  if (!filter) return true
+  if (!issue) return false
+
+  return (
+    matchesValue(filter.type, issue.type) &&
+    matchesValue(filter.priority, issue.priority) &&
+    matchesValue(filter.status, issue.status) &&
+    matchesValue(filter.assignee, issue.assignee) &&
+    (filter.labels ?? []).every((label) => issue.labels?.includes(label))
+  )
+}
+
+/**
+ * Delay before retry number `attempt` (1 for the first retry)
+ */
+export function retryDelay(backoff: BackoffOptions = {}, attempt: number): number {
+  const delay = backoff.delayMs ?? DEFAULT_BACKOFF_DELAY
+  if (backoff.type === 'fixed') return delay
+  return Math.min(delay * 2 ** (attempt - 1), backoff.maxDelayMs ?? DEFAULT_BACKOFF_MAX)
+}
@@ -0,0 +1,395 @@
+/**
+ * Cron expression engine for beads-workflows
+ * Parses standard 5-field cron expressions and computes upcoming run times
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Day of month field was not '*' */
+  domRestricted: boolean
+  /** Day of week field was not '*' */
+  dowRestricted: boolean
+}
+
+/**
+ * Allowed range and names for a cron field
+ */
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: Record<string, number>
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+}
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+]
+
+/**
+ * How far ahead nextRun searches before giving up (e.g. '0 0 30 2 *')
+ */
+const MAX_SEARCH_YEARS = 5
+
+/**
+ * Parse a single value (number or name) within a field
+ */
+function parseValue(value: string, spec: FieldSpec, source: string): number {
+  const named = spec.names?.[value.toLowerCase()]
+  if (named !== undefined) return named
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid cron expression "${source}": bad ${spec.name} value "${value}"`)
+  }
+
+  const n = Number(value)
+  if (n < spec.min || n > spec.max) {
+    throw new Error(
+      `Invalid cron expression "${source}": ${spec.name} ${n} out of range ${spec.min}-${spec.max}`
+    )
+  }
+  return n
+}
+
+/**
+ * Parse a cron field (lists, ranges, steps, names) into its set of values
+ */
+function parseField(field: string, spec: FieldSpec, source: string): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/')
+    if (!range || rest.length > 0) {
+      throw new Error(`Invalid cron expression "${source}": bad ${spec.name} "${part}"`)
+    }
+
+    let step = 1
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new Error(`Invalid cron expression "${source}": bad ${spec.name} step "${stepText}"`)
+      }
+      step = Number(stepText)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-')
+      if (!from || !to || extra.length > 0) {
+        throw new Error(`Invalid cron expression "${source}": bad ${spec.name} range "${range}"`)
+      }
+      start = parseValue(from, spec, source)
+      end = parseValue(to, spec, source)
+      if (start > end) {
+        throw new Error(`Invalid cron expression "${source}": bad ${spec.name} range "${range}"`)
+      }
+    } else {
+      start = parseValue(range, spec, source)
+      // 'n/step' means from n to the end of the range
+      end = stepText !== undefined ? spec.max : start
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ * Throws an Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i]!, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  }
+}
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export interface ZonedTime {
+  /** IANA time zone name (the system zone when none was configured) */
+  timezone: string
+  year: number
+  /** 1-12 */
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  /** 0 (Sunday) - 6 */
+  dayOfWeek: number
+  /** UTC offset, e.g. '-05:00' */
+  offset: string
+  /** ISO 8601 wall time with offset, e.g. '2025-03-10T09:00:00-05:00' */
+  iso: string
+}
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Formatters per time zone (creating them is expensive)
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatter(timezone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timezone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timezone, format)
+  }
+  return format
+}
+
+/**
+ * Check that a time zone is a valid IANA name, throwing otherwise
+ */
+export function validateTimeZone(timezone: string): void {
+  try {
+    formatter(timezone)
+  } catch {
+    throw new Error(`Invalid time zone "${timezone}"`)
+  }
+}
+
+/**
+ * Get the UTC offset (ms) of a time zone at an instant
+ * Without a time zone, the system zone is used
+ */
+function zoneOffset(instant: number, timezone?: string): number {
+  if (!timezone) {
+    return -new Date(instant).getTimezoneOffset() * MINUTE_MS
+  }
+
+  const parts: Record<string, number> = {}
+  for (const part of formatter(timezone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  const wall = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!)
+  return wall - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * Get the instants at which a wall-clock time (as UTC ms) occurs in a time zone
+ *
+ * - Usually one instant
+ * - Two during a DST overlap (fall back), earliest first
+ * - In a DST gap (spring forward) the wall time does not exist: it is
+ *   shifted forward by the size of the gap (02:30 -> 03:30)
+ */
+function wallToInstants(wall: number, timezone?: string): number[] {
+  const offsets = new Set([zoneOffset(wall - DAY_MS, timezone), zoneOffset(wall + DAY_MS, timezone)])
+
+  const instants: number[] = []
+  for (const offset of offsets) {
+    const instant = wall - offset
+    if (zoneOffset(instant, timezone) === offset) {
+      instants.push(instant)
+    }
+  }
+
+  if (instants.length === 0) {
+    // Gap: interpret with the offset from before the transition
+    return [wall - zoneOffset(wall - DAY_MS, timezone)]
+  }
+  return instants.sort((a, b) => a - b)
+}
+
+/**
+ * Get the wall-clock time of an instant in a time zone
+ */
+export function toZonedTime(instant: Date, timezone?: string): ZonedTime {
+  const offsetMs = zoneOffset(instant.getTime(), timezone)
+  const wall = new Date(Math.floor(instant.getTime() / 1000) * 1000 + offsetMs)
+
+  const sign = offsetMs < 0 ? '-' : '+'
+  const offsetMinutes = Math.abs(offsetMs) / MINUTE_MS
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const offset = `${sign}${pad(Math.floor(offsetMinutes / 60))}:${pad(offsetMinutes % 60)}`
+
+  return {
+    timezone: timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth() + 1,
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+    minute: wall.getUTCMinutes(),
+    second: wall.getUTCSeconds(),
+    dayOfWeek: wall.getUTCDay(),
+    offset,
+    iso: wall.toISOString().slice(0, 19) + offset,
+  }
+}
+
+/**
+ * Check whether a wall-clock day matches the expression
+ * Like standard cron, when both day fields are restricted either may match
+ */
+function matchesDay(cron: CronExpression, dayOfMonth: number, dayOfWeek: number): boolean {
+  const dom = cron.daysOfMonth.has(dayOfMonth)
+  const dow = cron.daysOfWeek.has(dayOfWeek)
+
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow
+  if (cron.domRestricted) return dom
+  if (cron.dowRestricted) return dow
+  return true
+}
+
+/**
+ * Check whether a date (to the minute) matches a cron expression
+ * The date is read as wall-clock time in the time zone (default: system zone)
+ */
+export function matchesCron(cron: string | CronExpression, date: Date, timezone?: string): boolean {
+  const expr = typeof cron === 'string' ? parseCron(cron) : cron
+  const wall = toZonedTime(date, timezone)
+  return (
+    expr.minutes.has(wall.minute) &&
+    expr.hours.has(wall.hour) &&
+    expr.months.has(wall.month) &&
+    matchesDay(expr, wall.day, wall.dayOfWeek)
+  )
+}
+
+/**
+ * Get the next time a cron expression fires strictly after `from`
+ *
+ * The expression is evaluated in wall-clock time of the time zone (default:
+ * system zone). Across DST transitions:
+ * - times skipped by spring forward run at the equivalent time after the gap
+ * - times repeated by fall back run once, on their first occurrence, unless
+ *   the hour field is '*' (then they also run during the repeated hour)
+ *
+ * @example
+ * ```typescript
+ * nextRun('0 9 * * 1-5', new Date('2025-01-03T17:00:00'))
+ * // => Mon Jan 06 2025 09:00
+ *
+ * nextRun('0 9 * * *', new Date('2025-03-09T00:00:00Z'), 'America/Chicago')
+ * // => 2025-03-09T14:00:00.000Z (09:00 CDT)
+ * ```
+ */
+export function nextRun(cron: string | CronExpression, from: Date = new Date(), timezone?: string): Date {
+  const expr = typeof cron === 'string' ? parseCron(cron) : cron
+  const everyHour = expr.hours.size === 24
+
+  // Walk wall-clock time, stored in a Date read with UTC accessors. Ahead of
+  // a fall back, start from the later (smaller) offset so the repeated hour
+  // is visited again; candidates at or before `from` are skipped below.
+  const offset = Math.min(zoneOffset(from.getTime(), timezone), zoneOffset(from.getTime() + DAY_MS, timezone))
+  const date = new Date(from.getTime() + offset)
+  date.setUTCSeconds(0, 0)
+  date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+  const limit = new Date(date.getTime())
+  limit.setUTCFullYear(limit.getUTCFullYear() + MAX_SEARCH_YEARS)
+
+  while (date <= limit) {
+    if (!expr.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(expr, date.getUTCDate(), date.getUTCDay())) {
+      date.setUTCDate(date.getUTCDate() + 1)
+      date.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!expr.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!expr.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+
+    const instants = wallToInstants(date.getTime(), timezone)
+    for (const instant of everyHour ? instants : instants.slice(0, 1)) {
+      if (instant > from.getTime()) {
+        return new Date(instant)
+      }
+    }
+    date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+  }
+
+  throw new Error(`Cron expression "${expr.source}" has no run time in the next ${MAX_SEARCH_YEARS} years`)
+}
+
+/**
+ * Get every time a cron expression fires after `after`, up to and including `until`
+ */
+export function runsBetween(
+  cron: string | CronExpression,
+  after: Date,
+  until: Date,
+  timezone?: string
+): Date[] {
+  const expr = typeof cron === 'string' ? parseCron(cron) : cron
+  const runs: Date[] = []
+
+  let next = nextRun(expr, after, timezone)
+  while (next.getTime() <= until.getTime()) {
+    runs.push(next)
+    next = nextRun(expr, next, timezone)
+  }
+
+  return runs
+}
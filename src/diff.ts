@@ -1,10 +1,30 @@
 /**
  * Diff function for detecting changes in issues.jsonl
- * Compares before and after content to find created, updated, and closed issues
+ * Compares before and after content to find created, updated, closed and deleted issues
  */
 
 import { parseJsonlLine } from './reader'
-import type { Issue } from './types'
+import type { Issue, Changes } from './types'
+
+/**
+ * Issue fields compared when computing changes
+ */
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'type',
+  'priority',
+  'assignee',
+  'labels',
+  'dependsOn',
+  'dependencies',
+  'parent',
+  'closeReason',
+  'externalRef',
+  'comments',
+  'extra',
+] as const satisfies ReadonlyArray<keyof Issue>
 
 /**
  * Input for diff function
@@ -21,6 +41,7 @@ export interface UpdatedIssue {
   id: string
   before: Issue
   after: Issue
+  changes: Changes
 }
 
 /**
@@ -30,6 +51,7 @@ export interface DiffResult {
   created: Issue[]
   updated: UpdatedIssue[]
   closed: Issue[]
+  deleted: Issue[]
 }
 
 /**
@@ -49,16 +71,55 @@ function parseToMap(content: string): Map<string, Issue> {
   return map
 }
 
+/**
+ * Compare two field values (arrays, objects and dates by value)
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => valuesEqual(value, b[i]))
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((key) => valuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+    )
+  }
+  return a === b
+}
+
+/**
+ * Compute field-level changes between two versions of an issue
+ */
+export function computeChanges(before: Issue, after: Issue): Changes {
+  const changes: Changes = {}
+
+  for (const field of TRACKED_FIELDS) {
+    if (!valuesEqual(before[field], after[field])) {
+      changes[field] = { from: before[field], to: after[field] }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Check whether a changes map contains any changed field
+ */
+export function hasChanges(changes: Changes): boolean {
+  return Object.keys(changes).length > 0
+}
+
 /**
  * Compare two issues to detect if they changed
  */
-function issueChanged(before: Issue, after: Issue): boolean {
+function issueChanged(before: Issue, after: Issue, changes: Changes): boolean {
   // Compare key fields
-  if (before.status !== after.status) return true
-  if (before.title !== after.title) return true
-  if (before.priority !== after.priority) return true
-  if (before.assignee !== after.assignee) return true
-  if (before.description !== after.description) return true
+  if (hasChanges(changes)) return true
 
   // Compare updated timestamps
   if (before.updated.getTime() !== after.updated.getTime()) return true
@@ -76,6 +137,7 @@ export async function diff(input: DiffInput): Promise<DiffResult> {
   const created: Issue[] = []
   const updated: UpdatedIssue[] = []
   const closed: Issue[] = []
+  const deleted: Issue[] = []
 
   // Find created and updated issues
   for (const [id, after] of afterMap) {
@@ -84,15 +146,26 @@ export async function diff(input: DiffInput): Promise<DiffResult> {
     if (!before) {
       // New issue
       created.push(after)
-    } else if (issueChanged(before, after)) {
+      continue
+    }
+
+    const changes = computeChanges(before, after)
+    if (issueChanged(before, after, changes)) {
       // Check if it was closed
       if (before.status !== 'closed' && after.status === 'closed') {
         closed.push(after)
       } else {
-        updated.push({ id, before, after })
+        updated.push({ id, before, after, changes })
       }
     }
   }
 
-  return { created, updated, closed }
+  // Find deleted issues
+  for (const [id, before] of beforeMap) {
+    if (!afterMap.has(id)) {
+      deleted.push(before)
+    }
+  }
+
+  return { created, updated, closed, deleted }
 }
@@ -4,7 +4,10 @@
  */
 
 import type { Issue, Epic, IssueStatus } from './types'
-import { readIssuesFromJsonl } from './reader'
+import type { IssueSource } from './source'
+import type { BeadsStore } from './store'
+import type { MutationPlan } from './plan'
+import { getIssueCache, plannedSnapshot, type IssueCache } from './cache'
 
 /**
  * Progress information for an epic
@@ -34,37 +37,68 @@ export interface EpicsApi {
 }
 
 /**
- * Create an epics API instance for a beads directory
+ * Get the children of an epic from a list of issues
+ * Children are the issues with a parent-child edge to the epic
  */
-export function createEpicsApi(beadsDir: string): EpicsApi {
-  let cachedIssues: Issue[] | null = null
-
-  async function loadIssues(): Promise<Issue[]> {
-    if (cachedIssues === null) {
-      cachedIssues = await readIssuesFromJsonl(beadsDir)
+export function getEpicChildren(epicId: string, issues: Iterable<Issue>): Issue[] {
+  const children: Issue[] = []
+  for (const issue of issues) {
+    if (issue.type === 'epic') continue // Epics can't be children of epics (in this model)
+    if (issue.parent === epicId) {
+      children.push(issue)
     }
-    return cachedIssues
   }
+  return children
+}
 
-  function getChildren(epicId: string, issues: Issue[]): Issue[] {
-    // Children are issues that depend on (are blocked by) the epic
-    return issues.filter(issue => {
-      if (issue.type === 'epic') return false // Epics can't be children of epics (in this model)
-      return issue.dependsOn.includes(epicId)
-    })
+/**
+ * Calculate progress from an epic's children
+ */
+export function calculateEpicProgress(children: Issue[]): EpicProgress {
+  if (children.length === 0) {
+    return { total: 0, closed: 0, percentage: 0 }
   }
 
+  const total = children.length
+  const closed = children.filter(c => c.status === 'closed').length
+  const percentage = (closed / total) * 100
+
+  return { total, closed, percentage }
+}
+
+/**
+ * Options for an epics API instance
+ */
+export interface EpicsApiOptions {
+  /** Dry run: reads see the mutations planned so far */
+  plan?: MutationPlan
+  /** Where issues are read from when no store is given (default: 'auto') */
+  source?: IssueSource
+  /** Store to read issues through (default: the files in beadsDir) */
+  store?: BeadsStore
+  /** Cache to read through (default: the one shared by all APIs on the same store) */
+  cache?: IssueCache
+}
+
+/**
+ * Create an epics API instance for a beads directory
+ */
+export function createEpicsApi(beadsDir: string, options: EpicsApiOptions = {}): EpicsApi {
+  const { plan, source } = options
+  const cache = options.cache ?? getIssueCache(beadsDir, { store: options.store, source })
+  const loadIndex = plannedSnapshot(cache, plan)
+
   return {
     async get(id: string): Promise<Epic | null> {
-      const issues = await loadIssues()
-      const issue = issues.find(i => i.id === id)
+      const { all: issues, byId } = await loadIndex()
+      const issue = byId.get(id)
 
       if (!issue || issue.type !== 'epic') {
         return null
       }
 
       // Build Epic with children array
-      const children = getChildren(id, issues)
+      const children = getEpicChildren(id, issues)
       const epic: Epic = {
         ...issue,
         type: 'epic',
@@ -75,7 +109,7 @@ export function createEpicsApi(beadsDir: string): EpicsApi {
     },
 
     async list(filter?: EpicFilter): Promise<Epic[]> {
-      const issues = await loadIssues()
+      const { all: issues } = await loadIndex()
       const epics = issues.filter(i => i.type === 'epic')
 
       let filtered = epics
@@ -87,32 +121,23 @@ export function createEpicsApi(beadsDir: string): EpicsApi {
       return filtered.map(e => ({
         ...e,
         type: 'epic' as const,
-        children: getChildren(e.id, issues).map(c => c.id),
+        children: getEpicChildren(e.id, issues).map(c => c.id),
       }))
     },
 
     async children(epicId: string): Promise<Issue[]> {
-      const issues = await loadIssues()
-      return getChildren(epicId, issues)
+      const { all: issues } = await loadIndex()
+      return getEpicChildren(epicId, issues)
     },
 
     async progress(epicId: string): Promise<EpicProgress> {
       const children = await this.children(epicId)
-
-      if (children.length === 0) {
-        return { total: 0, closed: 0, percentage: 0 }
-      }
-
-      const total = children.length
-      const closed = children.filter(c => c.status === 'closed').length
-      const percentage = (closed / total) * 100
-
-      return { total, closed, percentage }
+      return calculateEpicProgress(children)
     },
 
     async reload(): Promise<void> {
-      cachedIssues = null
-      await loadIssues()
+      cache.invalidate()
+      await loadIndex()
     },
   }
 }
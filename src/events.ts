@@ -0,0 +1,240 @@
+/**
+ * Event derivation for beads-workflows
+ * Maps watcher events to hook event names and derives graph and epic events
+ * (issue.ready, issue.blocked, dep.added, epic.completed, ...) from snapshot changes
+ */
+
+import type { WatcherEvent } from './watcher'
+import type { EventData } from './runtime'
+import { getEpicChildren, calculateEpicProgress, type EpicProgress } from './epics'
+import { blockerIds, type Issue, type Epic } from './types'
+
+/**
+ * Event derived from comparing two snapshots of the issue graph
+ * For epic events, issue is the epic itself; for ready/unblocked events,
+ * cause is the former blocker whose change unblocked the issue
+ */
+export type DerivedEvent =
+  | { name: 'issue.ready' | 'issue.unblocked'; issue: Issue; cause?: Issue }
+  | { name: 'issue.blocked'; issue: Issue; blocker: Issue }
+  | { name: 'dep.added' | 'dep.removed'; issue: Issue; dependency: Issue }
+  | { name: 'epic.progress'; issue: Issue; epic: Epic; progress: EpicProgress }
+  | { name: 'epic.completed'; issue: Issue; epic: Epic; children: Issue[] }
+
+/**
+ * Get the hook event names for a watcher event
+ *
+ * A single watcher event can map to several hook events, e.g. an
+ * open -> in_progress update fires both issue.updated and issue.started.
+ */
+export function issueEventNames(event: WatcherEvent): string[] {
+  const names = [`issue.${event.type}`]
+
+  if (
+    (event.type === 'updated' || event.type === 'reopened') &&
+    event.issue.status === 'in_progress' &&
+    event.previousIssue?.status !== 'in_progress'
+  ) {
+    names.push('issue.started')
+  }
+
+  return names
+}
+
+/**
+ * Get the open issues blocking an issue within a snapshot
+ */
+function openBlockers(issue: Issue, issues: Map<string, Issue>): Issue[] {
+  const blockers: Issue[] = []
+  for (const depId of blockerIds(issue)) {
+    const dep = issues.get(depId)
+    if (dep && dep.status !== 'closed') {
+      blockers.push(dep)
+    }
+  }
+  return blockers
+}
+
+/**
+ * Derive dependency graph events between two snapshots
+ *
+ * - dep.added / dep.removed: edges in the dependsOn diff
+ * - issue.blocked: a new open blocker appeared (new edge or reopened blocker)
+ * - issue.unblocked: the last open blocker closed or was removed
+ * - issue.ready: the issue entered the ready set (created, reopened or unblocked)
+ */
+export function deriveGraphEvents(
+  previous: Map<string, Issue>,
+  current: Map<string, Issue>
+): DerivedEvent[] {
+  const events: DerivedEvent[] = []
+
+  for (const [id, issue] of current) {
+    const before = previous.get(id)
+    const beforeDeps = before?.dependsOn ?? []
+
+    // Dependency edges
+    for (const depId of issue.dependsOn) {
+      if (beforeDeps.includes(depId)) continue
+      const dependency = current.get(depId)
+      if (dependency) {
+        events.push({ name: 'dep.added', issue, dependency })
+      }
+    }
+    for (const depId of beforeDeps) {
+      if (issue.dependsOn.includes(depId)) continue
+      const dependency = current.get(depId) ?? previous.get(depId)
+      if (dependency) {
+        events.push({ name: 'dep.removed', issue, dependency })
+      }
+    }
+
+    // Closed issues are neither ready nor blocked
+    if (issue.status === 'closed') continue
+
+    const wasOpen = before !== undefined && before.status !== 'closed'
+    const blockersBefore = wasOpen ? openBlockers(before, previous) : []
+    const blockersAfter = openBlockers(issue, current)
+
+    for (const blocker of blockersAfter) {
+      if (!blockersBefore.some(b => b.id === blocker.id)) {
+        events.push({ name: 'issue.blocked', issue, blocker })
+      }
+    }
+
+    if (blockersAfter.length === 0) {
+      // The most recently updated former blocker caused the unblocking
+      let cause: Issue | undefined
+      for (const blocker of blockersBefore) {
+        const latest = current.get(blocker.id) ?? blocker
+        if (!cause || latest.updated > cause.updated) {
+          cause = latest
+        }
+      }
+
+      if (blockersBefore.length > 0) {
+        events.push({ name: 'issue.unblocked', issue, cause })
+      }
+      if (!wasOpen || blockersBefore.length > 0) {
+        events.push({ name: 'issue.ready', issue, cause })
+      }
+    }
+  }
+
+  return events
+}
+
+/**
+ * Check whether progress represents a fully closed epic
+ */
+function isComplete(progress: EpicProgress): boolean {
+  return progress.total > 0 && progress.closed === progress.total
+}
+
+/**
+ * Derive epic lifecycle events between two snapshots
+ *
+ * - epic.progress: a child was closed or reopened, changing the closed ratio
+ * - epic.completed: the epic reached 100% (fires once per transition)
+ */
+export function deriveEpicEvents(
+  previous: Map<string, Issue>,
+  current: Map<string, Issue>
+): DerivedEvent[] {
+  const events: DerivedEvent[] = []
+
+  for (const issue of current.values()) {
+    if (issue.type !== 'epic') continue
+
+    const childrenBefore = getEpicChildren(issue.id, previous.values())
+    const childrenAfter = getEpicChildren(issue.id, current.values())
+    const before = calculateEpicProgress(childrenBefore)
+    const after = calculateEpicProgress(childrenAfter)
+
+    if (before.closed === after.closed && before.total === after.total) continue
+    if (after.total === 0) continue
+
+    const epic: Epic = {
+      ...issue,
+      type: 'epic',
+      children: childrenAfter.map(c => c.id),
+    }
+
+    events.push({ name: 'epic.progress', issue: epic, epic, progress: after })
+
+    if (isComplete(after) && !isComplete(before)) {
+      events.push({ name: 'epic.completed', issue: epic, epic, children: childrenAfter })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Derive all graph and epic events between two snapshots
+ */
+export function deriveEvents(
+  previous: Map<string, Issue>,
+  current: Map<string, Issue>
+): DerivedEvent[] {
+  return [...deriveGraphEvents(previous, current), ...deriveEpicEvents(previous, current)]
+}
+
+/**
+ * Get the hook arguments for a derived event
+ */
+export function derivedEventArgs(event: DerivedEvent): unknown[] {
+  switch (event.name) {
+    case 'issue.blocked':
+      return [event.issue, event.blocker]
+    case 'dep.added':
+    case 'dep.removed':
+      return [event.issue, event.dependency]
+    case 'epic.progress':
+      return [event.epic, event.progress]
+    case 'epic.completed':
+      return [event.epic, event.children]
+    default:
+      return [event.issue]
+  }
+}
+
+/**
+ * Get the handler event data for a derived event
+ */
+export function derivedEventData(event: DerivedEvent): EventData {
+  switch (event.name) {
+    case 'issue.blocked':
+      return { issue: event.issue, blocker: event.blocker }
+    case 'dep.added':
+    case 'dep.removed':
+      return { issue: event.issue, dependency: event.dependency }
+    case 'epic.progress':
+      return { issue: event.issue, epic: event.epic, progress: event.progress }
+    case 'epic.completed':
+      return { issue: event.issue, epic: event.epic, children: event.children }
+    default:
+      return event.cause ? { issue: event.issue, blocker: event.cause } : { issue: event.issue }
+  }
+}
+
+/**
+ * Compute the version of an event for idempotency checks
+ *
+ * The version is the latest update time among all issues involved, plus
+ * epic progress, so the same transition seen twice (fs.watch and polling,
+ * checkpoint replay, daemon and CI) maps to the same version.
+ */
+export function eventVersion(data: EventData): string {
+  const involved = [data.issue, data.blocker, data.dependency, ...(data.children ?? [])]
+
+  let latest = 0
+  for (const issue of involved) {
+    if (issue && issue.updated.getTime() > latest) {
+      latest = issue.updated.getTime()
+    }
+  }
+
+  const version = new Date(latest).toISOString()
+  return data.progress ? `${version}#${data.progress.closed}/${data.progress.total}` : version
+}
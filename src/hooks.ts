@@ -53,6 +53,7 @@ interface IssueHooks {
   closed(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
   reopened(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
   started(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
+  deleted(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
   ready(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
   blocked(handler: (issue: Issue, blocker: Issue) => void | Promise<void>): Unsubscribe
   unblocked(handler: (issue: Issue) => void | Promise<void>): Unsubscribe
@@ -99,6 +100,7 @@ export function createHooks(): Hooks {
     closed: (handler) => registry.register('issue.closed', handler),
     reopened: (handler) => registry.register('issue.reopened', handler),
     started: (handler) => registry.register('issue.started', handler),
+    deleted: (handler) => registry.register('issue.deleted', handler),
     ready: (handler) => registry.register('issue.ready', handler),
     blocked: (handler) => registry.register('issue.blocked', handler),
     unblocked: (handler) => registry.register('issue.unblocked', handler),
@@ -11,6 +11,9 @@ export type {
   IssueStatus,
   IssueType,
   Priority,
+  Dependency,
+  DependencyType,
+  Comment,
   Changes,
   IssueEvent,
   BeadsConfig,
@@ -20,13 +23,18 @@ export {
   isValidStatus,
   isValidType,
   isValidPriority,
+  isValidDependencyType,
   isIssue,
   isEpic,
+  blockerIds,
 } from './types'
 
 // Reader
-export { readIssuesFromJsonl, findBeadsDir, parseJsonlLine } from './reader'
-export type { JsonlIssue } from './reader'
+export { readIssuesFromJsonl, findBeadsDir, parseJsonlLine, parseIssueLine, formatDiagnostic, IssuesParseError } from './reader'
+export type { JsonlIssue, ParseDiagnostic, DiagnosticSeverity, ReadOptions, ReadResult } from './reader'
+export { readIssuesFromSqlite } from './sqlite'
+export { readIssues, resolveDatabasePath, DEFAULT_DATABASE, DEFAULT_SOURCE, ISSUE_SOURCES } from './source'
+export type { IssueSource } from './source'
 
 // Writer
 export {
@@ -47,43 +55,77 @@ export type { Hooks } from './hooks'
 
 // Issues API
 export { createIssuesApi } from './issues'
-export type { IssuesApi, ListFilter as IssuesListFilter } from './issues'
+export type { IssuesApi, IssuesApiOptions, ListFilter as IssuesListFilter } from './issues'
 
 // Epics API
-export { createEpicsApi } from './epics'
-export type { EpicsApi, EpicProgress, EpicFilter } from './epics'
+export { createEpicsApi, getEpicChildren, calculateEpicProgress } from './epics'
+export type { EpicsApi, EpicsApiOptions, EpicProgress, EpicFilter } from './epics'
 
 // Beads factory
 export { Beads, autoDetectBeads } from './beads'
 export type { BeadsOptions, BeadsInstance } from './beads'
 
 // Watcher
-export { createWatcher } from './watcher'
-export type { Watcher, WatcherEvent, WatcherEventType, WatcherOptions } from './watcher'
+export { createWatcher, CHECKPOINT_FILE } from './watcher'
+export type { Watcher, WatcherEvent, WatcherEventType, WatcherOptions, WatcherSnapshot } from './watcher'
+
+// Events
+export { issueEventNames, deriveEvents, deriveGraphEvents, deriveEpicEvents, derivedEventArgs, derivedEventData, eventVersion } from './events'
+export type { DerivedEvent } from './events'
 
 // Scanner
-export { createScanner } from './scanner'
-export type { Scanner, HandlerInfo } from './scanner'
+export { createScanner, parseScheduleName, parseHandlerName, compareHandlers, WORKFLOWS_DIR } from './scanner'
+export type { Scanner, HandlerInfo, ScanDiagnostic } from './scanner'
 
 // Init
 export { initWorkflows } from './init'
 export type { InitOptions, InitResult } from './init'
 
 // Runtime
-export { createRuntime } from './runtime'
-export type { Runtime, HandlerContext, HandlerGlobals, HandlerFn, ExecutionResult, EventData } from './runtime'
+export { createRuntime, loadHandlerModule } from './runtime'
+export type { Runtime, RuntimeOptions, HandlerContext, HandlerGlobals, HandlerFn, ExecutionResult, ExecuteOptions, EventData } from './runtime'
+
+// Dispatch queue
+export { createDispatchQueue, DEFAULT_CONCURRENCY, DEFAULT_MAX_QUEUED } from './queue'
+export type { DispatchQueue, DispatchQueueOptions } from './queue'
+
+// Handler config
+export { parseHandlerConfig, matchesFilter, retryDelay } from './config'
+export type { HandlerConfig, HandlerFilter, BackoffOptions } from './config'
+
+// Storage backends
+export { createBdStore, createMemoryStore } from './store'
+export type { BeadsStore, StoreMutation, BdStoreOptions, MemoryStoreOptions } from './store'
+
+// Issue cache
+export { createIssueCache, getIssueCache, disposeIssueCache, indexIssues, plannedSnapshot } from './cache'
+export type { IssueCache, IssueIndex } from './cache'
+
+// Dry-run plans
+export { createMutationPlan, formatMutation } from './plan'
+export type { MutationPlan, PlannedMutation } from './plan'
+
+// Run logs
+export { captureLogs, formatLogs, runLogPath, writeRunLog, readRunLog, LOGS_DIR, MAX_LOG_BYTES } from './logs'
+export type { LogEntry, LogLevel, HandlerLogger } from './logs'
 
 // Workflows
-export { Workflows } from './workflows'
-export type { WorkflowsApi, WorkflowRecord, IssueWorkflowRecord, ScheduleWorkflowRecord, RecordInput, ListFilter as WorkflowsListFilter, RetryInfo } from './workflows'
+export { Workflows, toRecordEvent, fromRecordEvent } from './workflows'
+export type { WorkflowsApi, WorkflowRecord, IssueWorkflowRecord, ScheduleWorkflowRecord, RecordInput, RecordedEventData, ListFilter as WorkflowsListFilter, RetryInfo, IssueRetryInfo, ScheduleRetryInfo } from './workflows'
 
 // Diff
-export { diff } from './diff'
+export { diff, computeChanges, hasChanges } from './diff'
 export type { DiffInput, DiffResult, UpdatedIssue } from './diff'
 
 // Schedule
 export { every, getScheduledHandlers, clearScheduledHandlers, CRON_PRESETS, getCronName, getCronExpression } from './schedule'
-export type { ScheduleContext, ScheduleHandler, RegisteredHandler } from './schedule'
+export type { ScheduleContext, ScheduleHandler, RegisteredHandler, ScheduleOptions } from './schedule'
+
+// Cron
+export { parseCron, matchesCron, nextRun, runsBetween, toZonedTime, validateTimeZone } from './cron'
+export type { CronExpression, ZonedTime } from './cron'
+export { createScheduler, CATCH_UP_POLICIES, MAX_MISSED_RUNS } from './scheduler'
+export type { Scheduler, SchedulerOptions, ScheduledJob, ScheduledJobRun, ScheduledRun, CatchUpPolicy } from './scheduler'
 
 // JSX Components (render to markdown for agents.mdx)
 export {
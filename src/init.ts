@@ -3,8 +3,9 @@
  * Generates global.d.ts and example handlers
  */
 
-import { writeFile, access, mkdir } from 'fs/promises'
+import { writeFile, readFile, access, mkdir } from 'fs/promises'
 import { join } from 'path'
+import { LOGS_DIR } from './logs'
 
 /**
  * Init options
@@ -22,6 +23,12 @@ export interface InitResult {
   error?: string
 }
 
+/**
+ * Files the daemon keeps in the beads directory that belong to one machine
+ * and are not committed
+ */
+const GITIGNORE_ENTRIES = ['issues.checkpoint.jsonl', 'issues.checkpoint.jsonl.tmp', `${LOGS_DIR}/`]
+
 /**
  * Generate global.d.ts content
  */
@@ -43,10 +50,18 @@ interface Issue {
   created: Date
   updated: Date
   closed?: Date
+  closeReason?: string
+  externalRef?: string
+  /** Ids of every issue this one depends on, whatever the edge type */
   dependsOn: string[]
+  /** Typed dependency edges; for 'parent-child' the id is the parent */
+  dependencies?: { id: string; type: 'blocks' | 'parent-child' | 'related' | 'discovered-from' }[]
   blocks: string[]
   parent?: string
   children?: string[]
+  comments?: { id?: number; author: string; text: string; created: Date }[]
+  /** Fields in issues.jsonl not listed above, kept as-is */
+  extra?: Record<string, unknown>
 }
 
 interface Epic extends Issue {
@@ -69,7 +84,32 @@ interface EpicsApi {
   get(id: string): Promise<Epic | null>
   list(filter?: { status?: string }): Promise<Epic[]>
   children(epicId: string): Promise<Issue[]>
-  progress(epicId: string): Promise<{ total: number; closed: number; percentage: number }>
+  progress(epicId: string): Promise<EpicProgress>
+}
+
+interface EpicProgress {
+  total: number
+  closed: number
+  percentage: number
+}
+
+interface HandlerLogger {
+  info(...args: unknown[]): void
+  warn(...args: unknown[]): void
+  error(...args: unknown[]): void
+}
+
+interface ZonedTime {
+  timezone: string
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  dayOfWeek: number
+  offset: string
+  iso: string
 }
 
 declare global {
@@ -79,14 +119,53 @@ declare global {
   /** The previous state of the issue (for issue.updated, issue.closed events) */
   const previousIssue: Issue | undefined
 
+  /** Changed fields with their old and new values (for issue.updated, issue.closed events) */
+  const changes: Record<string, { from: unknown; to: unknown } | undefined> | undefined
+
   /** The current epic being processed (for epic.* events) */
   const epic: Epic
 
+  /** The issue blocking this one (issue.blocked), or whose change unblocked it (issue.ready, issue.unblocked) */
+  const blocker: Issue | undefined
+
+  /** The issue depended on (for dep.added, dep.removed events) */
+  const dependency: Issue | undefined
+
+  /** The epic's children (for epic.completed events) */
+  const children: Issue[] | undefined
+
+  /** The epic's progress (for epic.progress events) */
+  const progress: EpicProgress | undefined
+
   /** Issues API for reading and writing issues */
   const issues: IssuesApi
 
   /** Epics API for reading epics */
   const epics: EpicsApi
+
+  /** Name of the event being handled */
+  const event: string
+
+  /** Writes to the run's log (console output is captured as well) */
+  const log: HandlerLogger
+
+  /** Aborted when the run times out or is cancelled */
+  const signal: AbortSignal
+
+  /** Cron expression of the schedule (for every.* handlers) */
+  const cron: string
+
+  /** Scheduled time of this run (for every.* handlers) */
+  const triggeredAt: Date
+
+  /** triggeredAt as wall-clock time in the schedule's time zone (for every.* handlers) */
+  const localTime: ZonedTime
+
+  /** Scheduled time of the last successful run, if any (for every.* handlers) */
+  const lastRunAt: Date | undefined
+
+  /** Fire times since lastRunAt that did not get their own run (for every.* handlers) */
+  const missedRuns: Date[]
 }
 
 export {}
@@ -133,6 +212,28 @@ console.log(\`Total ready issues: \${allReady.length}\`)
 `
 }
 
+/**
+ * Add the entries missing from the beads directory's .gitignore, keeping
+ * what bd wrote there; returns whether the file changed
+ */
+async function updateGitignore(beadsDir: string): Promise<boolean> {
+  const path = join(beadsDir, '.gitignore')
+  let content = ''
+  try {
+    content = await readFile(path, 'utf-8')
+  } catch {
+    // No .gitignore yet
+  }
+
+  const present = new Set(content.split('\n').map((line) => line.trim()))
+  const missing = GITIGNORE_ENTRIES.filter((entry) => !present.has(entry))
+  if (missing.length === 0) return false
+
+  const prefix = content === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n'
+  await writeFile(path, `${content}${prefix}# beads-workflows local state\n${missing.join('\n')}\n`)
+  return true
+}
+
 /**
  * Initialize workflows in a beads directory
  */
@@ -162,6 +263,10 @@ export async function initWorkflows(
     await writeFile(join(beadsDir, 'tsconfig.json'), generateTsConfig())
     files.push('tsconfig.json')
 
+    if (await updateGitignore(beadsDir)) {
+      files.push('.gitignore')
+    }
+
     // Write example handler if requested
     if (options.createExample) {
       const examplePath = join(beadsDir, 'on.issue.ready.ts')
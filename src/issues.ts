@@ -3,9 +3,12 @@
  * Provides issues.ready(), issues.get(), issues.list(), etc.
  */
 
-import type { Issue, IssueStatus, IssueType, Priority } from './types'
-import { readIssuesFromJsonl } from './reader'
-import { createIssue as bdCreate, updateIssue as bdUpdate, closeIssue as bdClose, type CreateOptions, type UpdateOptions } from './writer'
+import { blockerIds, type Issue, type IssueStatus, type IssueType, type Priority } from './types'
+import type { IssueSource } from './source'
+import type { CreateOptions, UpdateOptions } from './writer'
+import type { BeadsStore } from './store'
+import type { MutationPlan } from './plan'
+import { getIssueCache, plannedSnapshot, type IssueCache, type IssueIndex } from './cache'
 
 /**
  * Filter options for listing issues
@@ -15,6 +18,7 @@ export interface ListFilter {
   type?: IssueType
   priority?: Priority
   assignee?: string
+  label?: string
 }
 
 /**
@@ -33,36 +37,55 @@ export interface IssuesApi {
 }
 
 /**
- * Create an issues API instance for a beads directory
+ * Options for an issues API instance
  */
-export function createIssuesApi(beadsDir: string): IssuesApi {
-  let cachedIssues: Issue[] | null = null
-  let issuesById: Map<string, Issue> | null = null
-
-  async function loadIssues(): Promise<Issue[]> {
-    if (cachedIssues === null) {
-      cachedIssues = await readIssuesFromJsonl(beadsDir)
-      issuesById = new Map(cachedIssues.map(i => [i.id, i]))
-    }
-    return cachedIssues
-  }
-
-  function applyFilter(issues: Issue[], filter?: ListFilter): Issue[] {
-    if (!filter) return issues
+export interface IssuesApiOptions {
+  /**
+   * Dry run: mutations are added to the plan instead of running bd,
+   * and reads see the planned changes
+   */
+  plan?: MutationPlan
+  /** Where issues are read from when no store is given (default: 'auto') */
+  source?: IssueSource
+  /** Store to read and mutate issues through (default: bd and the files in beadsDir) */
+  store?: BeadsStore
+  /** Cache to read through (default: the one shared by all APIs on the same store) */
+  cache?: IssueCache
+}
 
-    return issues.filter(issue => {
+/**
+ * Create an issues API instance for a beads directory
+ */
+export function createIssuesApi(beadsDir: string, options: IssuesApiOptions = {}): IssuesApi {
+  const { plan, source } = options
+  const cache = options.cache ?? getIssueCache(beadsDir, { store: options.store, source })
+  const { store } = cache
+  const loadIndex = plannedSnapshot(cache, plan)
+
+  function applyFilter(index: IssueIndex, filter?: ListFilter): Issue[] {
+    if (!filter) return index.all
+
+    // Start from the smallest indexed list the filter allows
+    const candidates = filter.status
+      ? index.byStatus.get(filter.status)
+      : filter.assignee
+        ? index.byAssignee.get(filter.assignee)
+        : filter.label
+          ? index.byLabel.get(filter.label)
+          : index.all
+
+    return (candidates ?? []).filter(issue => {
       if (filter.status && issue.status !== filter.status) return false
       if (filter.type && issue.type !== filter.type) return false
       if (filter.priority !== undefined && issue.priority !== filter.priority) return false
       if (filter.assignee && issue.assignee !== filter.assignee) return false
+      if (filter.label && !issue.labels?.includes(filter.label)) return false
       return true
     })
   }
 
   function isBlocked(issue: Issue, allIssues: Map<string, Issue>): boolean {
-    if (issue.dependsOn.length === 0) return false
-
-    for (const depId of issue.dependsOn) {
+    for (const depId of blockerIds(issue)) {
       const dep = allIssues.get(depId)
       // If dependency exists and is not closed, issue is blocked
       if (dep && dep.status !== 'closed') {
@@ -74,20 +97,18 @@ export function createIssuesApi(beadsDir: string): IssuesApi {
 
   return {
     async get(id: string): Promise<Issue | null> {
-      await loadIssues()
-      return issuesById?.get(id) ?? null
+      const { byId } = await loadIndex()
+      return byId.get(id) ?? null
     },
 
     async list(filter?: ListFilter): Promise<Issue[]> {
-      const issues = await loadIssues()
-      return applyFilter(issues, filter)
+      return applyFilter(await loadIndex(), filter)
     },
 
     async ready(): Promise<Issue[]> {
-      const issues = await loadIssues()
-      const byId = issuesById!
+      const { all, byId } = await loadIndex()
 
-      return issues.filter(issue => {
+      return all.filter(issue => {
         // Must be open (not closed, not in_progress for some definitions)
         if (issue.status === 'closed') return false
 
@@ -99,10 +120,9 @@ export function createIssuesApi(beadsDir: string): IssuesApi {
     },
 
     async blocked(): Promise<Issue[]> {
-      const issues = await loadIssues()
-      const byId = issuesById!
+      const { all, byId } = await loadIndex()
 
-      return issues.filter(issue => {
+      return all.filter(issue => {
         if (issue.status === 'closed') return false
         return isBlocked(issue, byId)
       })
@@ -114,23 +134,34 @@ export function createIssuesApi(beadsDir: string): IssuesApi {
     },
 
     async reload(): Promise<void> {
-      cachedIssues = null
-      issuesById = null
-      await loadIssues()
+      cache.invalidate()
+      await loadIndex()
     },
 
     async create(options: CreateOptions): Promise<Issue | null> {
-      const result = await bdCreate(options, { cwd: beadsDir.replace('/.beads', '') })
-      if (result.success && result.data) {
+      if (plan) {
+        const id = plan.nextId()
+        plan.add({ op: 'create', id, options })
+        return this.get(id)
+      }
+
+      const id = await store.mutate({ op: 'create', options })
+      if (id) {
         await this.reload()
-        return this.get(result.data.id as string)
+        return this.get(id)
       }
       return null
     },
 
     async update(id: string, options: UpdateOptions): Promise<Issue | null> {
-      const result = await bdUpdate(id, options, { cwd: beadsDir.replace('/.beads', '') })
-      if (result.success) {
+      if (plan) {
+        // bd fails for unknown issues, so nothing is planned for them
+        if (!(await this.get(id))) return null
+        plan.add({ op: 'update', id, options })
+        return this.get(id)
+      }
+
+      if (await store.mutate({ op: 'update', id, options })) {
         await this.reload()
         return this.get(id)
       }
@@ -138,8 +169,13 @@ export function createIssuesApi(beadsDir: string): IssuesApi {
     },
 
     async close(id: string, reason?: string): Promise<boolean> {
-      const result = await bdClose(id, reason, { cwd: beadsDir.replace('/.beads', '') })
-      if (result.success) {
+      if (plan) {
+        if (!(await this.get(id))) return false
+        plan.add({ op: 'close', id, reason })
+        return true
+      }
+
+      if (await store.mutate({ op: 'close', id, reason })) {
         await this.reload()
         return true
       }
@@ -0,0 +1,206 @@
+/**
+ * Per-run handler logs
+ * Captures console output, process.stdout/stderr writes and ctx.log calls of
+ * each handler execution and stores them in .beads/logs/<run-id>.log
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { format } from 'util'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+/**
+ * Log levels; console.log/info/debug map to info
+ */
+export type LogLevel = 'info' | 'warn' | 'error'
+
+/**
+ * A single captured log line
+ */
+export interface LogEntry {
+  /** ISO timestamp */
+  time: string
+  level: LogLevel
+  message: string
+}
+
+/**
+ * Structured logger passed to handlers as ctx.log
+ */
+export interface HandlerLogger {
+  info(...args: unknown[]): void
+  warn(...args: unknown[]): void
+  error(...args: unknown[]): void
+}
+
+/**
+ * Directory in .beads holding run logs
+ */
+export const LOGS_DIR = 'logs'
+
+/**
+ * Most bytes of log messages kept per run; later output is dropped
+ */
+export const MAX_LOG_BYTES = 1024 * 1024
+
+const CONSOLE_LEVELS = [
+  ['log', 'info'],
+  ['info', 'info'],
+  ['debug', 'info'],
+  ['warn', 'warn'],
+  ['error', 'error'],
+] as const
+
+const STREAM_LEVELS = [
+  ['stdout', 'info'],
+  ['stderr', 'error'],
+] as const
+
+/**
+ * Options for captureLogs
+ */
+export interface CaptureOptions {
+  /** Called with each entry as it is logged (used to stream logs out of workers) */
+  onEntry?: (entry: LogEntry) => void
+  /** Also write captured output to the console (default: true) */
+  echo?: boolean
+}
+
+interface LogSink {
+  record(level: LogLevel, args: unknown[]): void
+  echo: boolean
+}
+
+// Sink of the run whose async context is current
+const currentSink = new AsyncLocalStorage<LogSink>()
+
+// Console and stream wrappers installed by captureConsole and captureStreams
+const wrappers = new WeakSet<Function>()
+
+/**
+ * Route console output made inside a run to that run's log
+ * Output outside a run is written as before. Methods replaced since the
+ * last call (e.g. by a test stubbing console.log) are wrapped again
+ */
+function captureConsole(): void {
+  for (const [method, level] of CONSOLE_LEVELS) {
+    if (wrappers.has(console[method])) continue
+
+    const original = console[method].bind(console)
+    const wrapper = (...args: unknown[]) => {
+      const sink = currentSink.getStore()
+      sink?.record(level, args)
+      if (!sink || sink.echo) original(...args)
+    }
+    wrappers.add(wrapper)
+    console[method] = wrapper
+  }
+}
+
+/**
+ * Route process.stdout/stderr writes made inside a run to that run's log,
+ * one entry per write
+ */
+function captureStreams(): void {
+  for (const [name, level] of STREAM_LEVELS) {
+    const stream = process[name]
+    if (wrappers.has(stream.write)) continue
+
+    const original = stream.write.bind(stream) as (...args: unknown[]) => boolean
+    const wrapper = (chunk: unknown, ...rest: unknown[]): boolean => {
+      const sink = currentSink.getStore()
+      if (!sink) return original(chunk, ...rest)
+
+      const text = typeof chunk === 'string' ? chunk : Buffer.from(chunk as Uint8Array).toString()
+      if (text) sink.record(level, [text.replace(/\r?\n$/, '')])
+      if (sink.echo) return original(chunk, ...rest)
+
+      // Not written, but callers may wait for the write callback
+      const callback = rest.find((arg) => typeof arg === 'function') as (() => void) | undefined
+      if (callback) queueMicrotask(callback)
+      return true
+    }
+    wrappers.add(wrapper)
+    stream.write = wrapper as typeof stream.write
+  }
+}
+
+/**
+ * Run a task with its console output, stream writes and logger calls captured
+ */
+export async function captureLogs<T>(
+  task: (log: HandlerLogger) => Promise<T>,
+  options: CaptureOptions = {}
+): Promise<{ result: T; logs: LogEntry[] }> {
+  captureConsole()
+  captureStreams()
+
+  const logs: LogEntry[] = []
+  let bytes = 0
+  let truncated = false
+
+  const push = (entry: LogEntry) => {
+    logs.push(entry)
+    options.onEntry?.(entry)
+  }
+
+  const sink: LogSink = {
+    echo: options.echo ?? true,
+    record(level, args) {
+      if (truncated) return
+      const message = format(...args)
+      bytes += message.length
+      if (bytes > MAX_LOG_BYTES) {
+        truncated = true
+        push({ time: new Date().toISOString(), level: 'warn', message: `[log truncated after ${MAX_LOG_BYTES} bytes]` })
+        return
+      }
+      push({ time: new Date().toISOString(), level, message })
+    },
+  }
+
+  // Logger calls go through the console so they print like console output
+  const log: HandlerLogger = {
+    info: (...args) => currentSink.run(sink, () => console.info(...args)),
+    warn: (...args) => currentSink.run(sink, () => console.warn(...args)),
+    error: (...args) => currentSink.run(sink, () => console.error(...args)),
+  }
+
+  const result = await currentSink.run(sink, () => task(log))
+  return { result, logs }
+}
+
+/**
+ * Format entries as lines: `<time> <LEVEL> <message>`
+ */
+export function formatLogs(entries: LogEntry[]): string {
+  return entries.map((e) => `${e.time} ${e.level.toUpperCase().padEnd(5)} ${e.message}\n`).join('')
+}
+
+/**
+ * Path of a run's log, relative to the beads directory
+ */
+export function runLogPath(runId: string): string {
+  return `${LOGS_DIR}/${runId}.log`
+}
+
+/**
+ * Write a run's log and return its path relative to the beads directory
+ */
+export async function writeRunLog(beadsDir: string, runId: string, entries: LogEntry[]): Promise<string> {
+  await mkdir(join(beadsDir, LOGS_DIR), { recursive: true })
+  const path = runLogPath(runId)
+  await writeFile(join(beadsDir, path), formatLogs(entries))
+  return path
+}
+
+/**
+ * Read a run's log, or null when it has none
+ */
+export async function readRunLog(beadsDir: string, runId: string): Promise<string | null> {
+  try {
+    return await readFile(join(beadsDir, runLogPath(runId)), 'utf-8')
+  } catch {
+    return null
+  }
+}
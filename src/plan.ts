@@ -0,0 +1,113 @@
+/**
+ * Mutation plan for dry runs
+ * Collects the creates, updates and closes handlers would make instead of
+ * running bd, and overlays them on the issues read back
+ */
+
+import { randomUUID } from 'crypto'
+import type { Issue } from './types'
+import type { CreateOptions, UpdateOptions } from './writer'
+
+/**
+ * A mutation a handler asked for during a dry run
+ */
+export type PlannedMutation =
+  | { op: 'create'; id: string; options: CreateOptions }
+  | { op: 'update'; id: string; options: UpdateOptions }
+  | { op: 'close'; id: string; reason?: string }
+
+/**
+ * Plan instance
+ */
+export interface MutationPlan {
+  add(mutation: PlannedMutation): void
+  /** Planned mutations in the order they were made */
+  list(): PlannedMutation[]
+  /** Copy of the issues with every planned mutation applied */
+  apply(issues: Issue[]): Issue[]
+  /** Placeholder id for an issue created during the dry run */
+  nextId(): string
+}
+
+interface Entry {
+  mutation: PlannedMutation
+  /** When the mutation was planned, used as its updated/created/closed time */
+  at: Date
+}
+
+/**
+ * Copy of the issues with one mutation applied, made at the given time
+ * Also used by the in-memory store
+ */
+export function applyMutation(issues: Issue[], mutation: PlannedMutation, at: Date = new Date()): Issue[] {
+  switch (mutation.op) {
+    case 'create': {
+      const { title, type, priority, description, assignee, labels } = mutation.options
+      return [
+        ...issues,
+        { id: mutation.id, title, type, priority, description, assignee, labels, status: 'open', created: at, updated: at, dependsOn: [], blocks: [] },
+      ]
+    }
+    case 'update': {
+      // Only fields given in the update change
+      const changes = Object.fromEntries(Object.entries(mutation.options).filter(([, value]) => value !== undefined))
+      return issues.map((issue) => (issue.id === mutation.id ? { ...issue, ...changes, updated: at } : issue))
+    }
+    case 'close':
+      return issues.map((issue) =>
+        issue.id === mutation.id ? { ...issue, status: 'closed', closed: at, updated: at } : issue
+      )
+  }
+}
+
+/**
+ * Create a mutation plan, optionally continuing an existing one
+ * onAdd sees each mutation as it is planned (used to stream plans out of workers)
+ */
+export function createMutationPlan(
+  initial: PlannedMutation[] = [],
+  onAdd?: (mutation: PlannedMutation) => void
+): MutationPlan {
+  const now = new Date()
+  const entries: Entry[] = initial.map((mutation) => ({ mutation, at: now }))
+
+  return {
+    add(mutation: PlannedMutation): void {
+      entries.push({ mutation, at: new Date() })
+      onAdd?.(mutation)
+    },
+
+    list(): PlannedMutation[] {
+      return entries.map((entry) => entry.mutation)
+    },
+
+    apply(issues: Issue[]): Issue[] {
+      return entries.reduce((result, { mutation, at }) => applyMutation(result, mutation, at), issues)
+    },
+
+    nextId(): string {
+      // Random so plans continued in several workers never hand out the same id
+      return `dry-run-${randomUUID().slice(0, 8)}`
+    },
+  }
+}
+
+/**
+ * Describe a planned mutation on one line, e.g. `close bw-123: duplicate`
+ */
+export function formatMutation(mutation: PlannedMutation): string {
+  switch (mutation.op) {
+    case 'create': {
+      const { title, type, priority } = mutation.options
+      return `create ${mutation.id} "${title}" (${type}, P${priority})`
+    }
+    case 'update': {
+      const fields = Object.entries(mutation.options)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => `${field}=${Array.isArray(value) ? value.join(',') : value}`)
+      return `update ${mutation.id} ${fields.join(' ')}`
+    }
+    case 'close':
+      return mutation.reason ? `close ${mutation.id}: ${mutation.reason}` : `close ${mutation.id}`
+  }
+}
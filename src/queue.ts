@@ -0,0 +1,119 @@
+/**
+ * Dispatch queue for handler runs
+ * Runs tasks concurrently up to a limit while keeping tasks that share a key
+ * (an issue id) strictly in the order they were queued
+ */
+
+/**
+ * Queue options
+ */
+export interface DispatchQueueOptions {
+  /** Most tasks running at the same time (default: 4) */
+  concurrency?: number
+  /** Queued tasks at which push() waits for room (default: 1000) */
+  maxQueued?: number
+}
+
+/**
+ * Queue instance
+ */
+export interface DispatchQueue {
+  /**
+   * Queue a task; tasks with the same key run one at a time, in push order
+   * Resolves once the task is queued - while the queue is full that waits for room
+   */
+  push(key: string, task: () => Promise<void>): Promise<void>
+  /** Resolves once every queued and running task has finished */
+  drain(): Promise<void>
+  /** Tasks waiting to run */
+  queued(): number
+  /** Tasks currently running */
+  running(): number
+}
+
+export const DEFAULT_CONCURRENCY = 4
+export const DEFAULT_MAX_QUEUED = 1000
+
+interface QueuedTask {
+  key: string
+  task: () => Promise<void>
+}
+
+/**
+ * Create a dispatch queue
+ */
+export function createDispatchQueue(options: DispatchQueueOptions = {}): DispatchQueue {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY
+  const maxQueued = options.maxQueued ?? DEFAULT_MAX_QUEUED
+
+  const queue: QueuedTask[] = []
+  // Keys with a running task - their later tasks wait
+  const activeKeys = new Set<string>()
+  // push() calls waiting for room
+  const waitingForRoom: (() => void)[] = []
+  // drain() calls waiting for the queue to empty
+  const waitingForDrain: (() => void)[] = []
+
+  function idle(): boolean {
+    return queue.length === 0 && activeKeys.size === 0
+  }
+
+  /**
+   * Start queued tasks while there are free slots
+   * Takes the oldest task whose key is not already running
+   */
+  function schedule(): void {
+    for (let i = 0; i < queue.length && activeKeys.size < concurrency; ) {
+      const next = queue[i]!
+      if (activeKeys.has(next.key)) {
+        i++
+        continue
+      }
+      queue.splice(i, 1)
+      run(next)
+    }
+
+    while (waitingForRoom.length > 0 && queue.length < maxQueued) {
+      waitingForRoom.shift()!()
+    }
+
+    if (idle()) {
+      for (const resolve of waitingForDrain.splice(0)) resolve()
+    }
+  }
+
+  function run({ key, task }: QueuedTask): void {
+    activeKeys.add(key)
+    task()
+      .catch((error) => {
+        console.error(`Dispatch for ${key} failed:`, error)
+      })
+      .finally(() => {
+        activeKeys.delete(key)
+        schedule()
+      })
+  }
+
+  return {
+    async push(key: string, task: () => Promise<void>): Promise<void> {
+      while (queue.length >= maxQueued) {
+        await new Promise<void>((resolve) => waitingForRoom.push(resolve))
+      }
+      queue.push({ key, task })
+      schedule()
+    },
+
+    drain(): Promise<void> {
+      if (idle()) return Promise.resolve()
+      return new Promise((resolve) => waitingForDrain.push(resolve))
+    },
+
+    queued(): number {
+      return queue.length
+    },
+
+    running(): number {
+      return activeKeys.size
+    },
+  }
+}
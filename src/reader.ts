@@ -5,7 +5,7 @@
 
 import { readFile, access } from 'fs/promises'
 import { join, dirname } from 'path'
-import type { Issue, IssueStatus, IssueType, Priority } from './types'
+import { blockerIds, isValidDependencyType, isValidPriority, isValidStatus, isValidType, type Comment, type Dependency, type Issue, type IssueStatus, type IssueType, type Priority } from './types'
 
 /**
  * Raw JSONL issue format from beads
@@ -21,6 +21,7 @@ export interface JsonlIssue {
   updated_at: string
   closed_at?: string
   close_reason?: string
+  external_ref?: string
   assignee?: string
   labels?: string[]
   dependencies?: Array<{
@@ -28,54 +29,264 @@ export interface JsonlIssue {
     depends_on_id: string
     type: string
   }>
+  comments?: Array<{
+    id?: number
+    issue_id?: string
+    author: string
+    text: string
+    created_at: string
+  }>
 }
 
 /**
- * Parse a single JSONL line into an Issue
+ * Fields mapped onto Issue; anything else ends up in Issue.extra
  */
-export function parseJsonlLine(line: string): Issue | null {
+const KNOWN_FIELDS = new Set<string>([
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'issue_type',
+  'created_at',
+  'updated_at',
+  'closed_at',
+  'close_reason',
+  'external_ref',
+  'assignee',
+  'labels',
+  'dependencies',
+  'comments',
+])
+
+/**
+ * How bad a parse problem is
+ * - error: the line was skipped
+ * - warning: the issue was kept, but a field is missing or invalid
+ */
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * Problem found while parsing issues.jsonl
+ */
+export interface ParseDiagnostic {
+  /** 1-based line number in issues.jsonl */
+  line: number
+  severity: DiagnosticSeverity
+  /** JSONL field at fault, when the problem is with a single field */
+  field?: string
+  /** Id of the issue on the line, when it could be read */
+  issueId?: string
+  message: string
+}
+
+/**
+ * Options for reading issues with diagnostics
+ */
+export interface ReadOptions {
+  /** Throw an IssuesParseError when any line has a problem */
+  strict?: boolean
+}
+
+/**
+ * Issues read along with the problems found on the way
+ */
+export interface ReadResult {
+  issues: Issue[]
+  diagnostics: ParseDiagnostic[]
+}
+
+/**
+ * Thrown in strict mode when issues.jsonl has problems
+ */
+export class IssuesParseError extends Error {
+  constructor(readonly diagnostics: ParseDiagnostic[]) {
+    const first = diagnostics[0]!
+    const more = diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more)` : ''
+    super(`Invalid issues.jsonl: ${formatDiagnostic(first)}${more}`)
+    this.name = 'IssuesParseError'
+  }
+}
+
+/**
+ * Format a diagnostic as `line 3: error: status: unknown status "opne"`
+ */
+export function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  const field = diagnostic.field ? `${diagnostic.field}: ` : ''
+  return `line ${diagnostic.line}: ${diagnostic.severity}: ${field}${diagnostic.message}`
+}
+
+/**
+ * Lines left behind by an unresolved git merge
+ */
+const CONFLICT_MARKER = /^(<{7}|={7}|>{7})( |$)/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Issue parsed from a line or record, with the problems found in it
+ */
+export interface ParsedIssue {
+  issue: Issue | null
+  diagnostics: ParseDiagnostic[]
+}
+
+/**
+ * Parse a single JSONL line into an Issue, reporting every problem found
+ * Lines that cannot be turned into an issue yield `issue: null` and an error;
+ * invalid fields yield warnings and are passed through as-is.
+ */
+export function parseIssueLine(line: string, lineNumber: number): ParsedIssue {
   const trimmed = line.trim()
-  if (!trimmed) return null
+  if (!trimmed) return { issue: null, diagnostics: [] }
+
+  const fail = (message: string): ParsedIssue => ({
+    issue: null,
+    diagnostics: [{ line: lineNumber, severity: 'error', message }],
+  })
+
+  if (CONFLICT_MARKER.test(trimmed)) {
+    return fail('merge conflict marker')
+  }
 
+  let parsed: unknown
   try {
-    const raw = JSON.parse(trimmed) as JsonlIssue
-
-    // Extract dependsOn from dependencies array
-    const dependsOn: string[] = []
-    if (raw.dependencies && Array.isArray(raw.dependencies)) {
-      for (const dep of raw.dependencies) {
-        if (dep.depends_on_id) {
-          dependsOn.push(dep.depends_on_id)
-        }
+    parsed = JSON.parse(trimmed)
+  } catch (error) {
+    return fail(`invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return parseIssueRecord(parsed, lineNumber)
+}
+
+/**
+ * Turn a record in the issues.jsonl format into an Issue
+ * Shared by the JSONL and SQLite readers so both yield the same shape.
+ * Edges without a type are 'blocks' edges (the beads default); edges of
+ * unknown types only show up in dependsOn
+ */
+export function parseIssueRecord(parsed: unknown, lineNumber: number): ParsedIssue {
+  const diagnostics: ParseDiagnostic[] = []
+  const fail = (message: string, field?: string): ParsedIssue => {
+    diagnostics.push({ line: lineNumber, severity: 'error', field, message })
+    return { issue: null, diagnostics }
+  }
+
+  if (!isObject(parsed)) {
+    return fail('expected a JSON object')
+  }
+  if (typeof parsed.id !== 'string' || !parsed.id) {
+    return fail('missing issue id', 'id')
+  }
+
+  const raw = parsed as unknown as JsonlIssue
+  const warn = (field: string, message: string) => {
+    diagnostics.push({ line: lineNumber, severity: 'warning', field, issueId: raw.id, message })
+  }
+
+  if (typeof raw.title !== 'string') warn('title', 'missing title')
+  if (!isValidStatus(raw.status)) warn('status', `unknown status ${JSON.stringify(raw.status)}`)
+  if (!isValidType(raw.issue_type)) warn('issue_type', `unknown issue type ${JSON.stringify(raw.issue_type)}`)
+  if (!isValidPriority(raw.priority)) warn('priority', `priority must be 0-4, got ${JSON.stringify(raw.priority)}`)
+
+  const date = (field: 'created_at' | 'updated_at' | 'closed_at', required: boolean): Date | undefined => {
+    const value = raw[field]
+    if (value === undefined || value === null) {
+      if (required) warn(field, 'missing timestamp')
+      return required ? new Date(NaN) : undefined
+    }
+    const parsedDate = new Date(value)
+    if (Number.isNaN(parsedDate.getTime())) warn(field, `invalid timestamp ${JSON.stringify(value)}`)
+    return parsedDate
+  }
+
+  // Extract dependsOn and typed edges from dependencies array
+  const dependsOn: string[] = []
+  const dependencies: Dependency[] = []
+  if (raw.dependencies !== undefined && !Array.isArray(raw.dependencies)) {
+    warn('dependencies', 'expected a list')
+  }
+  if (Array.isArray(raw.dependencies)) {
+    for (const dep of raw.dependencies as unknown[]) {
+      if (!isObject(dep) || typeof dep.depends_on_id !== 'string') {
+        warn('dependencies', `malformed dependency ${JSON.stringify(dep)}`)
+        continue
+      }
+      dependsOn.push(dep.depends_on_id)
+      const type = dep.type ?? 'blocks'
+      if (isValidDependencyType(type)) {
+        dependencies.push({ id: dep.depends_on_id, type })
       }
     }
+  }
 
-    const issue: Issue = {
-      id: raw.id,
-      title: raw.title,
-      description: raw.description,
-      status: raw.status as IssueStatus,
-      type: raw.issue_type as IssueType,
-      priority: raw.priority as Priority,
-      assignee: raw.assignee,
-      labels: raw.labels,
-      created: new Date(raw.created_at),
-      updated: new Date(raw.updated_at),
-      closed: raw.closed_at ? new Date(raw.closed_at) : undefined,
-      dependsOn,
-      blocks: [], // Will be computed after all issues are loaded
+  const comments: Comment[] = []
+  if (raw.comments !== undefined && !Array.isArray(raw.comments)) {
+    warn('comments', 'expected a list')
+  }
+  if (Array.isArray(raw.comments)) {
+    for (const comment of raw.comments as unknown[]) {
+      if (!isObject(comment) || typeof comment.text !== 'string') {
+        warn('comments', `malformed comment ${JSON.stringify(comment)}`)
+        continue
+      }
+      comments.push({
+        id: typeof comment.id === 'number' ? comment.id : undefined,
+        author: String(comment.author ?? ''),
+        text: comment.text,
+        created: new Date(String(comment.created_at)),
+      })
     }
+  }
+
+  const extra: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    if (!KNOWN_FIELDS.has(key)) extra[key] = value
+  }
 
-    return issue
-  } catch {
-    return null
+  const issue: Issue = {
+    id: raw.id,
+    title: raw.title,
+    description: raw.description,
+    status: raw.status as IssueStatus,
+    type: raw.issue_type as IssueType,
+    priority: raw.priority as Priority,
+    assignee: raw.assignee,
+    labels: raw.labels,
+    created: date('created_at', true)!,
+    updated: date('updated_at', true)!,
+    closed: raw.closed_at ? date('closed_at', false) : undefined,
+    closeReason: raw.close_reason,
+    externalRef: raw.external_ref,
+    dependsOn,
+    dependencies,
+    blocks: [], // Will be computed after all issues are loaded
+    parent: dependencies.find((dep) => dep.type === 'parent-child')?.id,
+    comments: comments.length > 0 ? comments : undefined,
+    extra: Object.keys(extra).length > 0 ? extra : undefined,
   }
+
+  return { issue, diagnostics }
+}
+
+/**
+ * Parse a single JSONL line into an Issue
+ * Returns null for blank or unparseable lines; see parseIssueLine for diagnostics
+ */
+export function parseJsonlLine(line: string): Issue | null {
+  return parseIssueLine(line, 0).issue
 }
 
 /**
  * Read all issues from a .beads directory
+ * With options, returns the issues along with parse diagnostics (and throws
+ * an IssuesParseError on any problem in strict mode)
  */
-export async function readIssuesFromJsonl(beadsDir: string): Promise<Issue[]> {
+export async function readIssuesFromJsonl(beadsDir: string): Promise<Issue[]>
+export async function readIssuesFromJsonl(beadsDir: string, options: ReadOptions): Promise<ReadResult>
+export async function readIssuesFromJsonl(beadsDir: string, options?: ReadOptions): Promise<Issue[] | ReadResult> {
   const jsonlPath = join(beadsDir, 'issues.jsonl')
 
   const content = await readFile(jsonlPath, 'utf-8')
@@ -83,32 +294,56 @@ export async function readIssuesFromJsonl(beadsDir: string): Promise<Issue[]> {
 
   // First pass: parse all issues
   const issues: Issue[] = []
-  for (const line of lines) {
-    const issue = parseJsonlLine(line)
-    if (issue) {
-      issues.push(issue)
+  const diagnostics: ParseDiagnostic[] = []
+  for (const [index, line] of lines.entries()) {
+    const parsed = parseIssueLine(line, index + 1)
+    diagnostics.push(...parsed.diagnostics)
+    if (parsed.issue) {
+      issues.push(parsed.issue)
     }
   }
 
-  // Second pass: compute blocks array
-  // If issue A depends on issue B, then B blocks A
+  if (options?.strict && diagnostics.length > 0) {
+    throw new IssuesParseError(diagnostics)
+  }
+
+  linkIssues(issues)
+
+  return options ? { issues, diagnostics } : issues
+}
+
+/**
+ * Fill in the blocks and children arrays, which follow from the
+ * dependencies of all other issues
+ */
+export function linkIssues(issues: Issue[]): void {
+  // Second pass: compute blocks and children arrays
+  // If issue A has a blocks edge to issue B, then B blocks A
+  // If issue A is a child of issue B, then A is one of B's children
   const blocksMap = new Map<string, string[]>()
+  const childrenMap = new Map<string, string[]>()
 
   for (const issue of issues) {
-    for (const depId of issue.dependsOn) {
+    for (const depId of blockerIds(issue)) {
       if (!blocksMap.has(depId)) {
         blocksMap.set(depId, [])
       }
       blocksMap.get(depId)!.push(issue.id)
     }
+    if (issue.parent) {
+      if (!childrenMap.has(issue.parent)) {
+        childrenMap.set(issue.parent, [])
+      }
+      childrenMap.get(issue.parent)!.push(issue.id)
+    }
   }
 
-  // Apply blocks to each issue
+  // Apply blocks and children to each issue
   for (const issue of issues) {
     issue.blocks = blocksMap.get(issue.id) || []
+    const children = childrenMap.get(issue.id)
+    if (children) issue.children = children
   }
-
-  return issues
 }
 
 /**
@@ -3,9 +3,18 @@
  * Provides context injection and error handling
  */
 
-import type { Issue, Epic } from './types'
+import { readFile, stat } from 'fs/promises'
+import { dirname } from 'path'
+import type { Issue, Epic, Changes } from './types'
 import { createIssuesApi, type IssuesApi } from './issues'
-import { createEpicsApi, type EpicsApi } from './epics'
+import type { MutationPlan, PlannedMutation } from './plan'
+import type { BeadsStore } from './store'
+import type { IssueSource } from './source'
+import { createEpicsApi, type EpicsApi, type EpicProgress } from './epics'
+import type { ScheduleHandler } from './schedule'
+import type { ScheduledJobRun } from './scheduler'
+import { toZonedTime } from './cron'
+import { captureLogs, type HandlerLogger, type LogEntry } from './logs'
 
 /**
  * Handler context passed to handlers
@@ -13,10 +22,19 @@ import { createEpicsApi, type EpicsApi } from './epics'
 export interface HandlerContext {
   issue: Issue
   previousIssue?: Issue
+  changes?: Changes
   epic?: Epic
+  blocker?: Issue
+  dependency?: Issue
+  children?: Issue[]
+  progress?: EpicProgress
   issues: IssuesApi
   epics: EpicsApi
   event: string
+  /** Aborted when the run times out or is cancelled */
+  signal: AbortSignal
+  /** Writes to the run's log (console output is captured as well) */
+  log: HandlerLogger
 }
 
 /**
@@ -25,7 +43,12 @@ export interface HandlerContext {
 export interface HandlerGlobals {
   issue: Issue
   previousIssue?: Issue
+  changes?: Changes
   epic?: Epic
+  blocker?: Issue
+  dependency?: Issue
+  children?: Issue[]
+  progress?: EpicProgress
   issues: IssuesApi
   epics: EpicsApi
 }
@@ -50,6 +73,10 @@ export interface ExecutionResult {
   success: boolean
   error?: string
   duration?: number
+  /** Set when the run failed because it exceeded timeoutMs */
+  timedOut?: boolean
+  /** Console output and ctx.log calls made during the run */
+  logs?: LogEntry[]
 }
 
 /**
@@ -58,7 +85,65 @@ export interface ExecutionResult {
 export interface EventData {
   issue?: Issue
   previousIssue?: Issue
+  changes?: Changes
   epic?: Epic
+  blocker?: Issue
+  dependency?: Issue
+  children?: Issue[]
+  progress?: EpicProgress
+}
+
+/**
+ * Options for a single handler execution
+ */
+export interface ExecuteOptions {
+  /** Fail the execution (and abort its signal) when the handler takes longer */
+  timeoutMs?: number
+  /** Cancels the execution: the handler's signal is aborted */
+  signal?: AbortSignal
+  /** Run isolated handlers on a smaller heap (Bun's `smol` worker option) */
+  lowMemory?: boolean
+  /** Called with each log entry as the handler writes it */
+  onLog?: (entry: LogEntry) => void
+}
+
+/**
+ * Isolated run of a handler file, sent to a worker
+ */
+export type WorkerRequest = {
+  beadsDir: string
+  path: string
+  source?: IssueSource
+  /** Dry run: the mutations planned so far */
+  plan?: PlannedMutation[]
+} & ({ kind: 'event'; event: string; data: EventData } | { kind: 'schedule'; cron: string; run: ScheduledJobRun })
+
+/**
+ * Messages between the runtime and its workers
+ */
+export type WorkerMessage =
+  | { type: 'run'; request: WorkerRequest }
+  | { type: 'abort' }
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'mutation'; mutation: PlannedMutation }
+  | { type: 'result'; result: ExecutionResult }
+
+/**
+ * Runtime options
+ */
+export interface RuntimeOptions {
+  /**
+   * Dry run: handlers' issue mutations are added to the plan instead of
+   * running bd, and their reads see the planned changes
+   */
+  plan?: MutationPlan
+  /**
+   * Store handlers' issues and epics APIs go through (default: bd and the
+   * files in beadsDir); isolated handlers always use the default
+   */
+  store?: BeadsStore
+  /** Where handlers' issues are read from when no store is given (default: 'auto') */
+  source?: IssueSource
 }
 
 /**
@@ -66,22 +151,304 @@ export interface EventData {
  */
 export interface Runtime {
   createContext(event: string, data: EventData): Promise<ExecutionContext>
-  execute(event: string, handler: HandlerFn, data: EventData): Promise<ExecutionResult>
+  execute(event: string, handler: HandlerFn, data: EventData, options?: ExecuteOptions): Promise<ExecutionResult>
+  executeSchedule(
+    cron: string,
+    handler: ScheduleHandler,
+    run: ScheduledJobRun,
+    options?: ExecuteOptions
+  ): Promise<ExecutionResult>
+  /** Run a handler file in its own worker, terminated on timeout */
+  executeIsolated(event: string, path: string, data: EventData, options?: ExecuteOptions): Promise<ExecutionResult>
+  executeScheduleIsolated(
+    cron: string,
+    path: string,
+    run: ScheduledJobRun,
+    options?: ExecuteOptions
+  ): Promise<ExecutionResult>
+}
+
+/**
+ * Time an aborted isolated handler gets to stop before its worker is terminated
+ */
+const ABORT_GRACE_MS = 1000
+
+/**
+ * Worker entry, next to this module (worker.ts in source, worker.js when built)
+ */
+const WORKER_URL = new URL(import.meta.url.endsWith('.ts') ? './worker.ts' : './worker.js', import.meta.url)
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function timeoutError(timeoutMs: number): string {
+  return `Handler timed out after ${timeoutMs}ms`
+}
+
+/**
+ * Run a handler in-process with an abort signal, optional timeout and captured logs
+ * A timed out handler has its signal aborted but is not stopped - its
+ * eventual result is ignored
+ */
+async function runInProcess(
+  invoke: (signal: AbortSignal, log: HandlerLogger) => Promise<void> | void,
+  options: ExecuteOptions
+): Promise<ExecutionResult> {
+  const { result, logs } = await captureLogs((log) => runWithSignal((signal) => invoke(signal, log), options), {
+    onEntry: options.onLog,
+  })
+  return { ...result, logs }
+}
+
+async function runWithSignal(
+  invoke: (signal: AbortSignal) => Promise<void> | void,
+  options: ExecuteOptions
+): Promise<ExecutionResult> {
+  const start = Date.now()
+  const { timeoutMs, signal } = options
+  const controller = new AbortController()
+  const cancel = () => controller.abort(signal?.reason)
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  if (signal?.aborted) cancel()
+  signal?.addEventListener('abort', cancel)
+
+  try {
+    const timeout = new Promise<'timeout'>((resolve) => {
+      if (timeoutMs) timer = setTimeout(() => resolve('timeout'), timeoutMs)
+    })
+
+    if ((await Promise.race([Promise.resolve(invoke(controller.signal)), timeout])) === 'timeout') {
+      controller.abort(new Error(timeoutError(timeoutMs!)))
+      return { success: false, error: timeoutError(timeoutMs!), duration: Date.now() - start, timedOut: true }
+    }
+
+    return { success: true, duration: Date.now() - start }
+  } catch (error) {
+    return { success: false, error: errorMessage(error), duration: Date.now() - start }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', cancel)
+  }
+}
+
+/**
+ * Run a handler file in a fresh worker
+ * On timeout or cancellation the handler's signal is aborted, and the worker
+ * is terminated if the handler has not settled within ABORT_GRACE_MS.
+ * Crashes and exits of the worker are reported as failed runs.
+ * Mutations the handler plans in a dry run are added to `plan` as they happen.
+ */
+function runInWorker(request: WorkerRequest, options: ExecuteOptions, plan?: MutationPlan): Promise<ExecutionResult> {
+  const start = Date.now()
+  const { timeoutMs, signal } = options
+
+  return new Promise((resolve) => {
+    const worker = new Worker(WORKER_URL.href, { smol: options.lowMemory })
+    // Streamed from the worker so a crash or termination keeps what was logged
+    const logs: LogEntry[] = []
+    let settled = false
+    let timedOut = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let graceTimer: ReturnType<typeof setTimeout> | undefined
+
+    const finish = (result: ExecutionResult) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      clearTimeout(graceTimer)
+      signal?.removeEventListener('abort', abort)
+      worker.terminate()
+
+      resolve(
+        timedOut
+          ? { success: false, error: timeoutError(timeoutMs!), duration: Date.now() - start, timedOut: true, logs }
+          : { success: result.success, error: result.error, duration: Date.now() - start, logs }
+      )
+    }
+
+    function abort(): void {
+      if (settled || graceTimer) return
+      worker.postMessage({ type: 'abort' } satisfies WorkerMessage)
+      graceTimer = setTimeout(
+        () => finish({ success: false, error: 'Handler did not stop after being cancelled' }),
+        ABORT_GRACE_MS
+      )
+    }
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
+      if (event.data.type === 'log') {
+        logs.push(event.data.entry)
+        options.onLog?.(event.data.entry)
+      } else if (event.data.type === 'mutation') {
+        plan?.add(event.data.mutation)
+      } else if (event.data.type === 'result') {
+        finish(event.data.result)
+      }
+    })
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      event.preventDefault()
+      finish({ success: false, error: `Handler crashed: ${errorMessage(event.error ?? event.message)}` })
+    })
+    worker.addEventListener('close', (event: CloseEvent) => {
+      finish({ success: false, error: `Handler worker exited with code ${event.code}` })
+    })
+
+    if (timeoutMs) {
+      timer = setTimeout(() => {
+        timedOut = true
+        abort()
+      }, timeoutMs)
+    }
+    if (signal?.aborted) abort()
+    signal?.addEventListener('abort', abort)
+
+    worker.postMessage({ type: 'run', request } satisfies WorkerMessage)
+  })
+}
+
+/**
+ * Context fields injected as globals into top-level script handlers
+ * (issue and schedule handler contexts)
+ */
+const SCRIPT_GLOBALS = [
+  'signal',
+  'log',
+  'issue',
+  'previousIssue',
+  'changes',
+  'epic',
+  'blocker',
+  'dependency',
+  'children',
+  'progress',
+  'issues',
+  'epics',
+  'event',
+  'cron',
+  'triggeredAt',
+  'localTime',
+  'lastRunAt',
+  'missedRuns',
+]
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => (...args: unknown[]) => Promise<void>
+
+/**
+ * Resolve an import specifier the way the script file itself would
+ */
+function resolveSpecifier(specifier: string, dir: string): string {
+  try {
+    return Bun.resolveSync(specifier, dir)
+  } catch {
+    // Leave it to import() to report
+    return specifier
+  }
+}
+
+// Import clause: default binding, named bindings (which may span lines) or namespace
+const IMPORT_CLAUSE = String.raw`(?:[\w$]+\s*,?\s*)?(?:\{[^}]*\}|\*\s*as\s+[\w$]+)?`
+const SIDE_EFFECT_IMPORT = /^import\s*("[^"]*");?$/gm
+const CLAUSE_IMPORT = new RegExp(String.raw`^import\s*(${IMPORT_CLAUSE})\s*from\s*("[^"]*");?$`, 'gm')
+
+/**
+ * Turn the static imports of transpiled code into dynamic imports
+ * so the script can run as a function body
+ * Throws when an import statement the transpiler found is left over
+ */
+function rewriteImports(code: string, dir: string): string {
+  const load = (specifier: string) => `await import(${JSON.stringify(resolveSpecifier(JSON.parse(specifier), dir))})`
+  const expected = new Bun.Transpiler({ loader: 'js' })
+    .scanImports(code)
+    .filter((entry) => entry.kind === 'import-statement').length
+  let rewritten = 0
+
+  const result = code
+    .replace(SIDE_EFFECT_IMPORT, (_, specifier: string) => {
+      rewritten++
+      return `${load(specifier)};`
+    })
+    .replace(CLAUSE_IMPORT, (_, clause: string, specifier: string) => {
+      rewritten++
+      const namespace = clause.match(/^(?:([\w$]+)\s*,\s*)?\*\s*as\s+([\w$]+)$/)
+      if (namespace) {
+        const [, defaultName, name] = namespace
+        return `const ${name} = ${load(specifier)};` + (defaultName ? ` const ${defaultName} = ${name}.default;` : '')
+      }
+
+      const named = clause.match(/^(?:([\w$]+)\s*,?\s*)?(?:\{([^}]*)\})?$/)
+      if (!named) return `const {} = ${load(specifier)};`
+      const [, defaultName, names = ''] = named
+      const bindings = names
+        .split(',')
+        .map((binding) => binding.trim())
+        .filter(Boolean)
+        .map((binding) => binding.replace(/\s+as\s+/, ': '))
+      if (defaultName) bindings.unshift(`default: ${defaultName}`)
+      return `const { ${bindings.join(', ')} } = ${load(specifier)};`
+    })
+
+  if (rewritten !== expected) {
+    throw new Error(`Could not rewrite ${expected - rewritten} import statement(s) of the script`)
+  }
+  return result
+}
+
+/**
+ * Compile a top-level script into a handler
+ * Each call runs the script in a fresh scope with the context fields as globals,
+ * so concurrent runs never share state
+ */
+function compileScript(path: string, code: string): (context: object) => Promise<void> {
+  const body = `"use strict";\n{\n${rewriteImports(code, dirname(path))}\n}\n//# sourceURL=${path}`
+  const script = new AsyncFunction(...SCRIPT_GLOBALS, body)
+
+  return (context) => {
+    const values = context as Record<string, unknown>
+    return script(...SCRIPT_GLOBALS.map((name) => values[name]))
+  }
+}
+
+/**
+ * Load a handler file
+ * Modules with exports are imported as-is; files without exports are
+ * top-level scripts, compiled into a default handler that injects the
+ * handler context as globals
+ */
+export async function loadHandlerModule(path: string): Promise<Record<string, unknown>> {
+  const [source, { mtimeMs }] = await Promise.all([readFile(path, 'utf-8'), stat(path)])
+  const transpiler = new Bun.Transpiler({ loader: path.endsWith('.js') ? 'js' : 'ts' })
+
+  if (transpiler.scan(source).exports.length > 0) {
+    // Version the specifier by mtime so edited handlers are re-imported
+    return import(`${path}?v=${mtimeMs}`)
+  }
+
+  return { default: compileScript(path, transpiler.transformSync(source)) }
 }
 
 /**
  * Create a runtime for a beads directory
  */
-export function createRuntime(beadsDir: string): Runtime {
-  const issuesApi = createIssuesApi(beadsDir)
-  const epicsApi = createEpicsApi(beadsDir)
+export function createRuntime(beadsDir: string, options: RuntimeOptions = {}): Runtime {
+  const { plan, store, source } = options
+  const issuesApi = createIssuesApi(beadsDir, { plan, store, source })
+  const epicsApi = createEpicsApi(beadsDir, { plan, store, source })
 
   return {
     async createContext(event: string, data: EventData): Promise<ExecutionContext> {
       const globals: HandlerGlobals = {
         issue: data.issue!,
         previousIssue: data.previousIssue,
+        changes: data.changes,
         epic: data.epic,
+        blocker: data.blocker,
+        dependency: data.dependency,
+        children: data.children,
+        progress: data.progress,
         issues: issuesApi,
         epics: epicsApi,
       }
@@ -95,33 +462,64 @@ export function createRuntime(beadsDir: string): Runtime {
     async execute(
       event: string,
       handler: HandlerFn,
-      data: EventData
+      data: EventData,
+      options: ExecuteOptions = {}
     ): Promise<ExecutionResult> {
-      const start = Date.now()
-
-      try {
-        const context: HandlerContext = {
-          issue: data.issue!,
-          previousIssue: data.previousIssue,
-          epic: data.epic,
-          issues: issuesApi,
-          epics: epicsApi,
-          event,
-        }
-
-        await handler(context)
-
-        return {
-          success: true,
-          duration: Date.now() - start,
-        }
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-          duration: Date.now() - start,
-        }
-      }
+      return runInProcess(
+        (signal, log) =>
+          handler({
+            issue: data.issue!,
+            previousIssue: data.previousIssue,
+            changes: data.changes,
+            epic: data.epic,
+            blocker: data.blocker,
+            dependency: data.dependency,
+            children: data.children,
+            progress: data.progress,
+            issues: issuesApi,
+            epics: epicsApi,
+            event,
+            signal,
+            log,
+          }),
+        options
+      )
+    },
+
+    async executeSchedule(
+      cron: string,
+      handler: ScheduleHandler,
+      run: ScheduledJobRun,
+      options: ExecuteOptions = {}
+    ): Promise<ExecutionResult> {
+      return runInProcess(
+        (signal, log) =>
+          handler({
+            cron,
+            triggeredAt: run.triggeredAt,
+            localTime: toZonedTime(run.triggeredAt, run.timezone),
+            lastRunAt: run.lastRunAt,
+            missedRuns: run.missedRuns,
+            issues: issuesApi,
+            epics: epicsApi,
+            signal,
+            log,
+          }),
+        options
+      )
+    },
+
+    executeIsolated(event: string, path: string, data: EventData, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+      return runInWorker({ kind: 'event', beadsDir, source, path, event, data, plan: plan?.list() }, options, plan)
+    },
+
+    executeScheduleIsolated(
+      cron: string,
+      path: string,
+      run: ScheduledJobRun,
+      options: ExecuteOptions = {}
+    ): Promise<ExecutionResult> {
+      return runInWorker({ kind: 'schedule', beadsDir, source, path, cron, run, plan: plan?.list() }, options, plan)
     },
   }
 }
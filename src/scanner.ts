@@ -1,22 +1,51 @@
 /**
  * Handler scanner for .beads/on.*.ts and every.*.ts files
- * Scans for convention-based event and schedule handlers
+ * Scans for convention-based event and schedule handlers, including
+ * suffixed files (on.issue.closed.notify.ts) and handler directories
+ * (.beads/workflows/on.issue.closed/*.ts)
  */
 
 import { readdir } from 'fs/promises'
 import { join } from 'path'
 
 /**
- * Schedule name to cron expression mapping
+ * Directory holding one subdirectory of handlers per event or schedule
+ */
+export const WORKFLOWS_DIR = 'workflows'
+
+/**
+ * Events emitted by the daemon, used to split handler suffixes off filenames
+ * (on.issue.closed.notify.ts -> issue.closed + notify)
+ */
+const KNOWN_EVENTS = [
+  'issue.created',
+  'issue.updated',
+  'issue.closed',
+  'issue.reopened',
+  'issue.deleted',
+  'issue.started',
+  'issue.ready',
+  'issue.blocked',
+  'issue.unblocked',
+  'dep.added',
+  'dep.removed',
+  'epic.progress',
+  'epic.completed',
+]
+
+/**
+ * Schedule name to cron expression mapping for fixed names
  */
 const SCHEDULE_CRONS: Record<string, string> = {
+  minute: '* * * * *',
   hour: '0 * * * *',
   day: '0 0 * * *',
   week: '0 0 * * 0',
+  month: '0 0 1 * *',
 }
 
 /**
- * Schedule name to event name mapping
+ * Schedule name to event name mapping (other names map to schedule.<name>)
  */
 const SCHEDULE_EVENTS: Record<string, string> = {
   hour: 'schedule.hourly',
@@ -24,6 +53,120 @@ const SCHEDULE_EVENTS: Record<string, string> = {
   week: 'schedule.weekly',
 }
 
+/**
+ * Day names accepted in schedule filenames
+ */
+const SCHEDULE_DAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6,
+}
+
+/**
+ * Day groups accepted in schedule filenames (day-of-week cron field)
+ */
+const SCHEDULE_DAY_GROUPS: Record<string, string> = {
+  day: '*',
+  weekday: '1-5',
+  weekdays: '1-5',
+  weekend: '0,6',
+}
+
+/**
+ * Parse a time of day: '0900', '9am', '930pm', '12pm'
+ */
+function parseTimeOfDay(text: string): { hour: number; minute: number } | null {
+  const clock = text.match(/^(\d{2})(\d{2})$/)
+  if (clock) {
+    const hour = Number(clock[1])
+    const minute = Number(clock[2])
+    return hour < 24 && minute < 60 ? { hour, minute } : null
+  }
+
+  const meridiem = text.match(/^(\d{1,2})(\d{2})?(am|pm)$/)
+  if (meridiem) {
+    const hour12 = Number(meridiem[1])
+    const minute = Number(meridiem[2] ?? 0)
+    if (hour12 < 1 || hour12 > 12 || minute >= 60) return null
+    const hour = (hour12 % 12) + (meridiem[3] === 'pm' ? 12 : 0)
+    return { hour, minute }
+  }
+
+  return null
+}
+
+/**
+ * Parse the day part of a schedule name: 'day', 'weekday', 'monday', 'monday-friday'
+ */
+function parseDays(text: string): string | null {
+  const group = SCHEDULE_DAY_GROUPS[text]
+  if (group) return group
+
+  const single = SCHEDULE_DAYS[text]
+  if (single !== undefined) return String(single)
+
+  const [from, to, ...rest] = text.split('-')
+  if (!from || !to || rest.length > 0) return null
+  const start = SCHEDULE_DAYS[from]
+  const end = SCHEDULE_DAYS[to]
+  if (start === undefined || end === undefined || start >= end) return null
+  return `${start}-${end}`
+}
+
+/**
+ * Parse an every.*.ts schedule name into a cron expression
+ * Returns an error message when the name is not part of the grammar
+ *
+ * - Fixed names: minute, hour, day, week, month
+ * - Intervals: 5m, 15m, 2h (must divide the hour or day evenly)
+ * - Days: monday, weekday, weekend, monday-friday (at midnight)
+ * - Days at a time: day-0900, weekday-9am, friday-530pm
+ * - Daily at a time: 0900, 9am
+ *
+ * @example
+ * ```typescript
+ * parseScheduleName('weekday-9am')  // { cron: '0 9 * * 1-5' }
+ * parseScheduleName('7m')           // { error: '...' }
+ * ```
+ */
+export function parseScheduleName(name: string): { cron: string } | { error: string } {
+  const fixed = SCHEDULE_CRONS[name]
+  if (fixed) return { cron: fixed }
+
+  const interval = name.match(/^(\d+)(m|h)$/)
+  if (interval) {
+    const n = Number(interval[1])
+    const [limit, unit] = interval[2] === 'm' ? [60, 'minute'] : [24, 'hour']
+    if (n < 1 || n > limit || limit % n !== 0) {
+      return { error: `interval "${name}" must evenly divide ${limit} ${unit}s` }
+    }
+    if (n === limit) {
+      return { cron: interval[2] === 'm' ? SCHEDULE_CRONS.hour! : SCHEDULE_CRONS.day! }
+    }
+    return { cron: interval[2] === 'm' ? `*/${n} * * * *` : `0 */${n} * * *` }
+  }
+
+  // A bare time of day runs daily
+  const daily = parseTimeOfDay(name)
+  if (daily) return { cron: `${daily.minute} ${daily.hour} * * *` }
+
+  // Trailing time of day, if any
+  const lastDash = name.lastIndexOf('-')
+  const time = lastDash > 0 ? parseTimeOfDay(name.slice(lastDash + 1)) : null
+  const dayText = time ? name.slice(0, lastDash) : name
+  const days = parseDays(dayText)
+
+  if (days === null) {
+    return { error: `unrecognized schedule "${name}"` }
+  }
+  const { hour, minute } = time ?? { hour: 0, minute: 0 }
+  return { cron: `${minute} ${hour} * * ${days}` }
+}
+
 /**
  * Handler info returned by scanner
  */
@@ -31,79 +174,195 @@ export interface HandlerInfo {
   event: string
   path: string
   filename: string
+  /** Unique handler name recorded in workflows.jsonl (path relative to .beads) */
+  name: string
+  /** Numeric filename prefix (10-notify.ts), used to order handlers of an event */
+  order?: number
   cron?: string
 }
 
+/**
+ * Problem found while scanning handler files
+ */
+export interface ScanDiagnostic {
+  path: string
+  filename: string
+  message: string
+}
+
 /**
  * Scanner instance
  */
 export interface Scanner {
   scan(): Promise<HandlerInfo[]>
-  getHandlers(): Map<string, HandlerInfo>
+  /** Handlers per event, in execution order */
+  getHandlers(): Map<string, HandlerInfo[]>
   getScheduleHandlers(): HandlerInfo[]
+  getDiagnostics(): ScanDiagnostic[]
+}
+
+/**
+ * Split an on.*.ts name into its event and optional handler suffix
+ * Unknown events are kept whole (on.issue.status.changed.ts)
+ */
+export function parseHandlerName(name: string): { event: string; suffix?: string } {
+  let event: string | undefined
+  for (const known of KNOWN_EVENTS) {
+    if (name.startsWith(`${known}.`) && (!event || known.length > event.length)) {
+      event = known
+    }
+  }
+
+  return event ? { event, suffix: name.slice(event.length + 1) } : { event: name }
+}
+
+/**
+ * Get the numeric order prefix of a handler name ('10-notify' -> 10)
+ */
+function parseOrder(name: string): number | undefined {
+  const match = name.match(/^(\d+)[-_.]/)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Sort handlers by order (unordered handlers count as 0), then by name
+ */
+export function compareHandlers(
+  a: { name: string; order?: number },
+  b: { name: string; order?: number }
+): number {
+  return (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name)
+}
+
+/**
+ * List handler modules (.ts/.js) in a directory, or [] if it does not exist
+ * Files starting with '_' or '.' and declaration files are skipped
+ */
+async function listModules(dir: string): Promise<string[]> {
+  try {
+    const files = await readdir(dir)
+    return files
+      .filter((file) => /\.(ts|js)$/.test(file) && !/^[_.]/.test(file) && !file.endsWith('.d.ts'))
+      .sort()
+  } catch {
+    return []
+  }
 }
 
 /**
  * Create a handler scanner for a beads directory
  */
 export function createScanner(beadsDir: string): Scanner {
-  const handlers = new Map<string, HandlerInfo>()
+  const handlers = new Map<string, HandlerInfo[]>()
   const scheduleHandlers: HandlerInfo[] = []
+  const diagnostics: ScanDiagnostic[] = []
+
+  function addHandler(info: HandlerInfo): void {
+    const list = handlers.get(info.event) ?? []
+    list.push(info)
+    handlers.set(info.event, list)
+  }
+
+  function addSchedule(scheduleName: string, info: Omit<HandlerInfo, 'event'>): void {
+    const parsed = parseScheduleName(scheduleName)
+    const schedule: HandlerInfo = {
+      ...info,
+      event: SCHEDULE_EVENTS[scheduleName] ?? `schedule.${scheduleName}`,
+    }
+
+    // Unparseable names are kept: the module may export its own cron
+    if ('cron' in parsed) {
+      schedule.cron = parsed.cron
+    } else {
+      diagnostics.push({
+        path: schedule.path,
+        filename: schedule.filename,
+        message: `${parsed.error}; rename the file or export a cron expression`,
+      })
+    }
+
+    addHandler(schedule)
+    scheduleHandlers.push(schedule)
+  }
 
   return {
     async scan(): Promise<HandlerInfo[]> {
       handlers.clear()
       scheduleHandlers.length = 0
+      diagnostics.length = 0
+
+      for (const file of await listModules(beadsDir)) {
+        const path = join(beadsDir, file)
+
+        // Match on.*.ts or on.*.js (event handlers)
+        const eventMatch = file.match(/^on\.(.+)\.(ts|js)$/)
+        if (eventMatch && eventMatch[1]) {
+          const { event, suffix } = parseHandlerName(eventMatch[1])
+          addHandler({
+            event,
+            path,
+            filename: file,
+            name: file,
+            order: suffix ? parseOrder(suffix) : undefined,
+          })
+          continue
+        }
+
+        // Match every.*.ts or every.*.js (schedule handlers)
+        const scheduleMatch = file.match(/^every\.(.+)\.(ts|js)$/)
+        if (scheduleMatch && scheduleMatch[1]) {
+          addSchedule(scheduleMatch[1], { path, filename: file, name: file })
+        }
+      }
 
+      // .beads/workflows/on.<event>/*.ts and .beads/workflows/every.<schedule>/*.ts
+      const workflowsDir = join(beadsDir, WORKFLOWS_DIR)
+      let groups: string[] = []
       try {
-        const files = await readdir(beadsDir)
+        const entries = await readdir(workflowsDir, { withFileTypes: true })
+        groups = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort()
+      } catch {
+        // No workflows directory
+      }
 
-        for (const file of files) {
-          // Match on.*.ts or on.*.js (event handlers)
-          const eventMatch = file.match(/^on\.(.+)\.(ts|js)$/)
-          if (eventMatch && eventMatch[1]) {
-            const eventName = eventMatch[1]
-            const info: HandlerInfo = {
-              event: eventName,
-              path: join(beadsDir, file),
-              filename: file,
-            }
-            handlers.set(eventName, info)
-            continue
+      for (const group of groups) {
+        const eventMatch = group.match(/^on\.(.+)$/)
+        const scheduleMatch = group.match(/^every\.(.+)$/)
+        if (!eventMatch && !scheduleMatch) continue
+
+        for (const file of await listModules(join(workflowsDir, group))) {
+          const info = {
+            path: join(workflowsDir, group, file),
+            filename: file,
+            name: `${WORKFLOWS_DIR}/${group}/${file}`,
+            order: parseOrder(file),
           }
 
-          // Match every.*.ts or every.*.js (schedule handlers)
-          const scheduleMatch = file.match(/^every\.(.+)\.(ts|js)$/)
-          if (scheduleMatch && scheduleMatch[1]) {
-            const scheduleName = scheduleMatch[1]
-            const cron = SCHEDULE_CRONS[scheduleName]
-            const event = SCHEDULE_EVENTS[scheduleName]
-
-            if (cron && event) {
-              const info: HandlerInfo = {
-                event,
-                path: join(beadsDir, file),
-                filename: file,
-                cron,
-              }
-              handlers.set(event, info)
-              scheduleHandlers.push(info)
-            }
+          if (eventMatch && eventMatch[1]) {
+            addHandler({ ...info, event: eventMatch[1] })
+          } else if (scheduleMatch && scheduleMatch[1]) {
+            addSchedule(scheduleMatch[1], info)
           }
         }
-      } catch {
-        // Directory might not exist
       }
 
-      return Array.from(handlers.values())
+      for (const list of handlers.values()) {
+        list.sort(compareHandlers)
+      }
+
+      return Array.from(handlers.values()).flat()
     },
 
-    getHandlers(): Map<string, HandlerInfo> {
-      return new Map(handlers)
+    getHandlers(): Map<string, HandlerInfo[]> {
+      return new Map(Array.from(handlers, ([event, list]) => [event, [...list]]))
     },
 
     getScheduleHandlers(): HandlerInfo[] {
       return [...scheduleHandlers]
     },
+
+    getDiagnostics(): ScanDiagnostic[] {
+      return [...diagnostics]
+    },
   }
 }
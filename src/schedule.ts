@@ -5,15 +5,29 @@
 
 import type { IssuesApi } from './issues'
 import type { EpicsApi } from './epics'
+import type { CatchUpPolicy } from './scheduler'
+import type { ZonedTime } from './cron'
+import type { HandlerLogger } from './logs'
 
 /**
  * Context passed to schedule handlers
  */
 export interface ScheduleContext {
   cron: string
+  /** Scheduled time of this run (a past fire time when catching up) */
   triggeredAt: Date
+  /** triggeredAt as wall-clock time in the schedule's time zone */
+  localTime: ZonedTime
+  /** Scheduled time of the last successful run, if any */
+  lastRunAt?: Date
+  /** Fire times since lastRunAt that did not get their own run */
+  missedRuns: Date[]
   issues: IssuesApi
   epics: EpicsApi
+  /** Aborted when the run times out or is cancelled */
+  signal: AbortSignal
+  /** Writes to the run's log (console output is captured as well) */
+  log: HandlerLogger
 }
 
 /**
@@ -27,6 +41,18 @@ export type ScheduleHandler = (context: ScheduleContext) => Promise<void> | void
 export interface RegisteredHandler {
   cron: string
   handler: ScheduleHandler
+  catchUp?: CatchUpPolicy
+  timezone?: string
+}
+
+/**
+ * Options for every() registrations
+ */
+export interface ScheduleOptions {
+  /** What to do with runs missed while the daemon was not running */
+  catchUp?: CatchUpPolicy
+  /** IANA time zone the cron expression is evaluated in (default: system zone) */
+  timezone?: string
 }
 
 /**
@@ -50,10 +76,18 @@ let scheduledHandlers: RegisteredHandler[] = []
  * every('0 9 * * 1-5', async ({ issues }) => {
  *   // Runs at 9am on weekdays
  * })
+ *
+ * every('0 9 * * 1-5', async ({ localTime }) => {
+ *   // Runs at 9am on weekdays in Chicago, across DST changes
+ * }, { timezone: 'America/Chicago' })
+ *
+ * every('0 0 * * *', async ({ lastRunAt, missedRuns }) => {
+ *   // Runs once on start for every missed day
+ * }, { catchUp: 'all' })
  * ```
  */
-export function every(cron: string, handler: ScheduleHandler): void {
-  scheduledHandlers.push({ cron, handler })
+export function every(cron: string, handler: ScheduleHandler, options: ScheduleOptions = {}): void {
+  scheduledHandlers.push({ cron, handler, catchUp: options.catchUp, timezone: options.timezone })
 }
 
 /**
@@ -0,0 +1,243 @@
+/**
+ * Scheduler for cron-based jobs
+ * Keeps a single timer armed for the earliest upcoming run and catches up
+ * on runs missed while the process was not running (or the machine slept)
+ */
+
+import { parseCron, nextRun, runsBetween, validateTimeZone, type CronExpression } from './cron'
+
+/**
+ * What to do with fire times that passed without a run
+ *
+ * - skip: drop them, only run on schedule from now on
+ * - once: run a single time covering the whole gap
+ * - all: run once per missed fire time, oldest first
+ */
+export type CatchUpPolicy = 'skip' | 'once' | 'all'
+
+/**
+ * Catch-up policies accepted by the scheduler
+ */
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = ['skip', 'once', 'all']
+
+/**
+ * A single run of a scheduled job
+ */
+export interface ScheduledJobRun {
+  /** Scheduled time of this run */
+  triggeredAt: Date
+  /** Scheduled time of the last successful run, if any */
+  lastRunAt?: Date
+  /** Fire times since lastRunAt that did not get their own run */
+  missedRuns: Date[]
+  /** Time zone the job's cron expression is evaluated in */
+  timezone?: string
+}
+
+/**
+ * Job registered with the scheduler
+ */
+export interface ScheduledJob {
+  /** Name used in logs and records (e.g. 'every.hour.ts') */
+  name: string
+  cron: string
+  /** IANA time zone for the cron expression (default: system zone) */
+  timezone?: string
+  /** Overrides the scheduler's catch-up policy for this job */
+  catchUp?: CatchUpPolicy
+  /** Scheduled time of the last successful run, used to detect missed runs */
+  lastRunAt?: Date
+  /** Run the job; returning false marks the run as failed */
+  run(run: ScheduledJobRun): Promise<boolean | void> | boolean | void
+}
+
+/**
+ * Upcoming run of a job
+ */
+export interface ScheduledRun {
+  name: string
+  cron: string
+  timezone?: string
+  next: Date
+  lastRunAt?: Date
+}
+
+/**
+ * Scheduler options
+ */
+export interface SchedulerOptions {
+  /** Clock used to compute run times (default: current time) */
+  now?: () => Date
+  /** Default catch-up policy (default: 'once') */
+  catchUp?: CatchUpPolicy
+}
+
+/**
+ * Scheduler instance
+ */
+export interface Scheduler {
+  add(job: ScheduledJob): void
+  clear(): void
+  start(): void
+  stop(): Promise<void>
+  /** Run every job due at or before `at` and compute its next run */
+  tick(at?: Date): Promise<void>
+  getRuns(): ScheduledRun[]
+  isRunning(): boolean
+}
+
+/**
+ * Longest delay setTimeout accepts (~24.8 days)
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * A fire time this recent counts as on schedule rather than missed
+ */
+const ON_TIME_MS = 60_000
+
+/**
+ * Most missed fire times kept per catch-up (the most recent ones)
+ */
+export const MAX_MISSED_RUNS = 100
+
+interface Entry {
+  job: ScheduledJob
+  expression: CronExpression
+  next: Date
+  lastRunAt?: Date
+}
+
+/**
+ * Create a scheduler
+ * Throws when a job is added with an invalid cron expression or time zone
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const now = options.now ?? (() => new Date())
+  const defaultCatchUp = options.catchUp ?? 'once'
+
+  const entries: Entry[] = []
+  let running = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  // Runs are serialized so a slow job never overlaps its next tick
+  let ticking: Promise<void> = Promise.resolve()
+
+  function arm(): void {
+    if (timer) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (!running || entries.length === 0) return
+
+    let earliest = entries[0]!.next.getTime()
+    for (const entry of entries) {
+      earliest = Math.min(earliest, entry.next.getTime())
+    }
+
+    const delay = Math.min(Math.max(earliest - now().getTime(), 0), MAX_TIMEOUT)
+    timer = setTimeout(() => {
+      timer = null
+      void tick()
+    }, delay)
+  }
+
+  async function runJob(entry: Entry, run: ScheduledJobRun): Promise<void> {
+    try {
+      const result = await entry.job.run({ ...run, timezone: entry.job.timezone })
+      if (result !== false) {
+        entry.lastRunAt = run.triggeredAt
+      }
+    } catch (error) {
+      console.error(`Scheduled job ${entry.job.name} failed:`, error)
+    }
+  }
+
+  /**
+   * Run an entry for its due fire times according to its catch-up policy
+   */
+  async function runEntry(entry: Entry, due: Date[], at: Date): Promise<void> {
+    const latest = due[due.length - 1]!
+    const missedRuns = due.slice(0, -1)
+    const onTime = at.getTime() - latest.getTime() < ON_TIME_MS
+
+    switch (entry.job.catchUp ?? defaultCatchUp) {
+      case 'skip':
+        if (onTime) {
+          await runJob(entry, { triggeredAt: latest, lastRunAt: entry.lastRunAt, missedRuns })
+        }
+        return
+      case 'once':
+        await runJob(entry, { triggeredAt: latest, lastRunAt: entry.lastRunAt, missedRuns })
+        return
+      case 'all':
+        for (const triggeredAt of due) {
+          await runJob(entry, { triggeredAt, lastRunAt: entry.lastRunAt, missedRuns: [] })
+        }
+        return
+    }
+  }
+
+  async function runDue(at: Date): Promise<void> {
+    for (const entry of entries) {
+      if (entry.next.getTime() > at.getTime()) continue
+
+      const { timezone } = entry.job
+      const due = [entry.next, ...runsBetween(entry.expression, entry.next, at, timezone)].slice(-MAX_MISSED_RUNS)
+      entry.next = nextRun(entry.expression, at, timezone)
+
+      await runEntry(entry, due, at)
+    }
+  }
+
+  function tick(at?: Date): Promise<void> {
+    ticking = ticking.then(async () => {
+      await runDue(at ?? now())
+      arm()
+    })
+    return ticking
+  }
+
+  return {
+    add(job: ScheduledJob): void {
+      const expression = parseCron(job.cron)
+      if (job.timezone) validateTimeZone(job.timezone)
+      // With a previous run, the first fire time after it may already be due
+      const next = nextRun(expression, job.lastRunAt ?? now(), job.timezone)
+      entries.push({ job, expression, next, lastRunAt: job.lastRunAt })
+      arm()
+    },
+
+    clear(): void {
+      entries.length = 0
+      arm()
+    },
+
+    start(): void {
+      if (running) return
+      running = true
+      arm()
+    },
+
+    async stop(): Promise<void> {
+      running = false
+      arm()
+      await ticking
+    },
+
+    tick,
+
+    getRuns(): ScheduledRun[] {
+      return entries.map(({ job, next, lastRunAt }) => ({
+        name: job.name,
+        cron: job.cron,
+        timezone: job.timezone,
+        next: new Date(next),
+        lastRunAt,
+      }))
+    },
+
+    isRunning(): boolean {
+      return running
+    },
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Issue source selection
+ * Picks between the beads SQLite database and issues.jsonl
+ */
+
+import { readFile, stat } from 'fs/promises'
+import { isAbsolute, join } from 'path'
+import type { Issue } from './types'
+import { readIssuesFromJsonl } from './reader'
+import { readIssuesFromSqlite } from './sqlite'
+
+/**
+ * Where issues are read from
+ * - 'jsonl': issues.jsonl
+ * - 'sqlite': the beads database
+ * - 'auto': the database when it exists and can be read, else issues.jsonl
+ */
+export type IssueSource = 'sqlite' | 'jsonl' | 'auto'
+
+/**
+ * Sources accepted by readIssues
+ */
+export const ISSUE_SOURCES: readonly IssueSource[] = ['sqlite', 'jsonl', 'auto']
+
+/**
+ * Source used when none is given, by every API, store and runtime alike so
+ * they share one cache per beads directory
+ */
+export const DEFAULT_SOURCE: IssueSource = 'auto'
+
+/**
+ * Database file used when metadata.json does not name one
+ */
+export const DEFAULT_DATABASE = 'beads.db'
+
+/**
+ * Path of the beads database, from the `database` field of metadata.json
+ */
+export async function resolveDatabasePath(beadsDir: string): Promise<string> {
+  let database = DEFAULT_DATABASE
+  try {
+    const metadata = JSON.parse(await readFile(join(beadsDir, 'metadata.json'), 'utf-8'))
+    if (typeof metadata.database === 'string' && metadata.database) {
+      database = metadata.database
+    }
+  } catch {
+    // No or unreadable metadata - use the default name
+  }
+  return isAbsolute(database) ? database : join(beadsDir, database)
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read all issues of a beads directory from the given source
+ */
+export async function readIssues(beadsDir: string, source: IssueSource = 'jsonl'): Promise<Issue[]> {
+  if (source === 'jsonl') {
+    return readIssuesFromJsonl(beadsDir)
+  }
+
+  const dbPath = await resolveDatabasePath(beadsDir)
+  if (source === 'sqlite') {
+    return readIssuesFromSqlite(dbPath)
+  }
+
+  if (!(await exists(dbPath))) {
+    return readIssuesFromJsonl(beadsDir)
+  }
+  try {
+    return await readIssuesFromSqlite(dbPath)
+  } catch {
+    // Locked, corrupt or of an unknown schema - the export still works
+    return readIssuesFromJsonl(beadsDir)
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * SQLite reader
+ * Reads issues straight from the beads database, which bd updates before
+ * it exports issues.jsonl
+ */
+
+import type { Database } from 'bun:sqlite'
+import type { Issue } from './types'
+import { linkIssues, parseIssueRecord } from './reader'
+
+/**
+ * Bookkeeping columns of the issues table that bd leaves out of its export
+ */
+const INTERNAL_COLUMNS = new Set([
+  'content_hash',
+  'compaction_level',
+  'compacted_at',
+  'compacted_at_commit',
+  'original_size',
+])
+
+const TIMESTAMP_COLUMNS = new Set(['created_at', 'updated_at', 'closed_at'])
+
+type Row = Record<string, unknown>
+
+/**
+ * SQLite stores timestamps as `YYYY-MM-DD HH:MM:SS[.fff][zone]`; ones
+ * without a zone are UTC
+ */
+function normalizeTimestamp(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const iso = value.replace(' ', 'T')
+  return /(Z|[+-]\d{2}:?\d{2})$/.test(iso) ? iso : `${iso}Z`
+}
+
+function hasTable(db: Database, name: string): boolean {
+  return db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== null
+}
+
+function groupByIssue(rows: Row[]): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>()
+  for (const row of rows) {
+    const id = String(row.issue_id)
+    const group = groups.get(id)
+    if (group) group.push(row)
+    else groups.set(id, [row])
+  }
+  return groups
+}
+
+/**
+ * Turn an issues row and its related rows into a record in the
+ * issues.jsonl format, leaving out empty columns like bd's export does
+ */
+function toRecord(row: Row, labels: Row[], dependencies: Row[], comments: Row[]): Row {
+  const record: Row = {}
+  for (const [column, value] of Object.entries(row)) {
+    if (INTERNAL_COLUMNS.has(column) || value === null || value === '') continue
+    record[column] = TIMESTAMP_COLUMNS.has(column) ? normalizeTimestamp(value) : value
+  }
+
+  if (labels.length > 0) {
+    record.labels = labels.map((label) => label.label)
+  }
+  if (dependencies.length > 0) {
+    record.dependencies = dependencies.map(({ issue_id, depends_on_id, type }) => ({ issue_id, depends_on_id, type }))
+  }
+  if (comments.length > 0) {
+    record.comments = comments.map(({ id, issue_id, author, text, created_at }) => ({
+      id,
+      issue_id,
+      author,
+      text,
+      created_at: normalizeTimestamp(created_at),
+    }))
+  }
+  return record
+}
+
+/**
+ * Read all issues from a beads SQLite database
+ * The database is opened read-only. Rows that do not make a valid issue are
+ * skipped, as unparseable lines are when reading JSONL. bun:sqlite is loaded
+ * here rather than at the top so the SDK still loads outside Bun, where this
+ * rejects and the 'auto' source falls back to JSONL
+ */
+export async function readIssuesFromSqlite(dbPath: string): Promise<Issue[]> {
+  const { Database } = await import('bun:sqlite')
+  const db = new Database(dbPath, { readonly: true })
+
+  try {
+    const rows = db.query('SELECT * FROM issues ORDER BY id').all() as Row[]
+    const labels = hasTable(db, 'labels')
+      ? groupByIssue(db.query('SELECT issue_id, label FROM labels ORDER BY label').all() as Row[])
+      : new Map<string, Row[]>()
+    const dependencies = hasTable(db, 'dependencies')
+      ? groupByIssue(db.query('SELECT issue_id, depends_on_id, type FROM dependencies ORDER BY depends_on_id').all() as Row[])
+      : new Map<string, Row[]>()
+    const comments = hasTable(db, 'comments')
+      ? groupByIssue(db.query('SELECT id, issue_id, author, text, created_at FROM comments ORDER BY created_at, id').all() as Row[])
+      : new Map<string, Row[]>()
+
+    const issues: Issue[] = []
+    rows.forEach((row, index) => {
+      const id = String(row.id)
+      const record = toRecord(row, labels.get(id) ?? [], dependencies.get(id) ?? [], comments.get(id) ?? [])
+      const { issue } = parseIssueRecord(record, index + 1)
+      if (issue) issues.push(issue)
+    })
+
+    linkIssues(issues)
+    return issues
+  } finally {
+    db.close()
+  }
+}
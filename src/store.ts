@@ -0,0 +1,202 @@
+/**
+ * Storage backends
+ * A store loads issues, reports when they change and applies mutations.
+ * The APIs, watcher and components all go through one, so they can run
+ * against bd and its files or entirely in memory
+ */
+
+import { stat } from 'fs/promises'
+import { join } from 'path'
+import type { Issue } from './types'
+import { readIssues, resolveDatabasePath, DEFAULT_SOURCE, type IssueSource } from './source'
+import { createIssue, updateIssue, closeIssue, type CreateOptions, type UpdateOptions } from './writer'
+import { createWatcher, type Watcher } from './watcher'
+import { applyMutation } from './plan'
+
+/**
+ * A change to make to the issues
+ */
+export type StoreMutation =
+  | { op: 'create'; options: CreateOptions }
+  | { op: 'update'; id: string; options: UpdateOptions }
+  | { op: 'close'; id: string; reason?: string }
+
+/**
+ * Storage backend interface
+ */
+export interface BeadsStore {
+  /** Read all issues */
+  load(): Promise<Issue[]>
+  /** Call listener with all issues whenever they change; returns an unsubscribe function */
+  subscribe(listener: (issues: Issue[]) => void): () => void
+  /** Apply a mutation; resolves to the id of the created or changed issue, or null when it failed */
+  mutate(mutation: StoreMutation): Promise<string | null>
+  /**
+   * Cheap value that changes whenever the issues do, letting caches skip
+   * reloads; stores without one are reloaded only after mutations
+   */
+  stamp?(): Promise<string>
+}
+
+/**
+ * Options for the bd store
+ */
+export interface BdStoreOptions {
+  /** Where issues are read from (default: 'auto') */
+  source?: IssueSource
+}
+
+/**
+ * Create a store that reads issues.jsonl or the beads database and
+ * mutates through the bd CLI
+ * Subscribers are told about changes once bd exports them to issues.jsonl
+ */
+export function createBdStore(beadsDir: string, options: BdStoreOptions = {}): BeadsStore {
+  const source = options.source ?? DEFAULT_SOURCE
+  const cwd = beadsDir.replace('/.beads', '')
+  const listeners = new Set<(issues: Issue[]) => void>()
+  let watcher: Watcher | null = null
+
+  const load = () => readIssues(beadsDir, source)
+  const jsonl = join(beadsDir, 'issues.jsonl')
+  const metadata = join(beadsDir, 'metadata.json')
+
+  // Database path, resolved again only when metadata.json changes
+  let database: { stamp: string; path: Promise<string> } | null = null
+
+  function databasePath(metadataStamp: string): Promise<string> {
+    if (database?.stamp !== metadataStamp) {
+      database = { stamp: metadataStamp, path: resolveDatabasePath(beadsDir) }
+    }
+    return database.path
+  }
+
+  async function fileStamp(path: string): Promise<string> {
+    try {
+      const { ino, size, mtimeMs } = await stat(path)
+      return `${ino}:${size}:${mtimeMs}`
+    } catch {
+      return '-'
+    }
+  }
+
+  // Watch issues.jsonl only while someone is subscribed
+  function startWatching(): void {
+    watcher = createWatcher(beadsDir)
+    watcher.on('change', async () => {
+      const issues = await load()
+      for (const listener of listeners) listener(issues)
+    })
+    watcher.on('error', (error) => {
+      console.error('Store watcher error:', error)
+    })
+    watcher.start().catch((error) => {
+      console.error('Store watcher error:', error)
+    })
+  }
+
+  return {
+    load,
+
+    subscribe(listener: (issues: Issue[]) => void): () => void {
+      listeners.add(listener)
+      if (!watcher) startWatching()
+
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0 && watcher) {
+          watcher.stop().catch(() => {})
+          watcher = null
+        }
+      }
+    },
+
+    // Files whose changes show up in load(); the database may be in WAL mode
+    async stamp(): Promise<string> {
+      if (source === 'jsonl') return fileStamp(jsonl)
+      const metadataStamp = await fileStamp(metadata)
+      const db = await databasePath(metadataStamp)
+      const files = source === 'auto' ? [db, `${db}-wal`, jsonl] : [db, `${db}-wal`]
+      const stamps = await Promise.all(files.map(fileStamp))
+      return [metadataStamp, ...stamps].join(' ')
+    },
+
+    async mutate(mutation: StoreMutation): Promise<string | null> {
+      switch (mutation.op) {
+        case 'create': {
+          const result = await createIssue(mutation.options, { cwd })
+          return result.success && result.data ? (result.data.id as string) : null
+        }
+        case 'update': {
+          const result = await updateIssue(mutation.id, mutation.options, { cwd })
+          return result.success ? mutation.id : null
+        }
+        case 'close': {
+          const result = await closeIssue(mutation.id, mutation.reason, { cwd })
+          return result.success ? mutation.id : null
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Options for the in-memory store
+ */
+export interface MemoryStoreOptions {
+  /** Prefix of the ids given to created issues (default: 'mem') */
+  prefix?: string
+}
+
+/**
+ * Create a store that keeps issues in memory, for tests and scripts that
+ * should not touch files or run bd
+ * Subscribers are called right after each mutation
+ */
+export function createMemoryStore(initial: Issue[] = [], options: MemoryStoreOptions = {}): BeadsStore {
+  const prefix = options.prefix ?? 'mem'
+  const listeners = new Set<(issues: Issue[]) => void>()
+  let issues = [...initial]
+  let nextId = 1
+  let version = 0
+
+  function newId(): string {
+    const taken = new Set(issues.map((issue) => issue.id))
+    while (taken.has(`${prefix}-${nextId}`)) nextId++
+    return `${prefix}-${nextId++}`
+  }
+
+  return {
+    async load(): Promise<Issue[]> {
+      return [...issues]
+    },
+
+    async stamp(): Promise<string> {
+      return String(version)
+    },
+
+    subscribe(listener: (issues: Issue[]) => void): () => void {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    async mutate(mutation: StoreMutation): Promise<string | null> {
+      let id: string
+      if (mutation.op === 'create') {
+        id = newId()
+        issues = applyMutation(issues, { ...mutation, id })
+      } else {
+        // Like bd, fail for unknown issues
+        if (!issues.some((issue) => issue.id === mutation.id)) return null
+        id = mutation.id
+        issues = applyMutation(issues, mutation)
+      }
+
+      version++
+      for (const listener of listeners) listener([...issues])
+      return id
+    },
+  }
+}
@@ -11,6 +11,28 @@ export type IssueType = 'task' | 'bug' | 'feature' | 'epic'
 // Priority levels (P0-P4)
 export type Priority = 0 | 1 | 2 | 3 | 4
 
+// Dependency edge types
+export type DependencyType = 'blocks' | 'parent-child' | 'related' | 'discovered-from'
+
+/**
+ * Dependency edge: the issue depends on `id` in the way given by `type`
+ * For 'parent-child' edges the issue is the child and `id` its parent
+ */
+export interface Dependency {
+  id: string
+  type: DependencyType
+}
+
+/**
+ * Comment on an issue
+ */
+export interface Comment {
+  id?: number
+  author: string
+  text: string
+  created: Date
+}
+
 /**
  * Core Issue interface
  */
@@ -26,10 +48,22 @@ export interface Issue {
   created: Date
   updated: Date
   closed?: Date
+  /** Why the issue was closed */
+  closeReason?: string
+  /** Reference in an external tracker (e.g. gh-123) */
+  externalRef?: string
+  /** Ids of every issue this one depends on, whatever the edge type */
   dependsOn: string[]
+  /** Typed dependency edges */
+  dependencies?: Dependency[]
   blocks: string[]
+  /** Parent issue, from this issue's parent-child edge */
   parent?: string
+  /** Child issues, from parent-child edges pointing at this issue */
   children?: string[]
+  comments?: Comment[]
+  /** Fields in issues.jsonl this version does not know about, kept as-is */
+  extra?: Record<string, unknown>
 }
 
 /**
@@ -74,6 +108,9 @@ const VALID_STATUSES: IssueStatus[] = ['open', 'in_progress', 'closed']
 // Valid types
 const VALID_TYPES: IssueType[] = ['task', 'bug', 'feature', 'epic']
 
+// Valid dependency types
+const VALID_DEPENDENCY_TYPES: DependencyType[] = ['blocks', 'parent-child', 'related', 'discovered-from']
+
 /**
  * Type guard: check if value is valid IssueStatus
  */
@@ -88,6 +125,13 @@ export function isValidType(value: unknown): value is IssueType {
   return typeof value === 'string' && VALID_TYPES.includes(value as IssueType)
 }
 
+/**
+ * Type guard: check if value is valid DependencyType
+ */
+export function isValidDependencyType(value: unknown): value is DependencyType {
+  return typeof value === 'string' && VALID_DEPENDENCY_TYPES.includes(value as DependencyType)
+}
+
 /**
  * Type guard: check if value is valid Priority (0-4)
  */
@@ -150,3 +194,12 @@ export function isEpic(value: unknown): value is Epic {
 
   return true
 }
+
+/**
+ * Ids of the issues blocking an issue: the targets of its 'blocks' edges,
+ * or of every dependency when it has no typed edges
+ */
+export function blockerIds(issue: Issue): string[] {
+  if (!issue.dependencies) return issue.dependsOn
+  return issue.dependencies.filter((dep) => dep.type === 'blocks').map((dep) => dep.id)
+}
@@ -1,18 +1,25 @@
 /**
  * File watcher for issues.jsonl
- * Detects changes and emits typed events
+ * Detects changes and emits typed events; can also watch a store instead
  */
 
 import { watch } from 'fs'
-import { readFile, stat } from 'fs/promises'
+import { readFile, writeFile, rename } from 'fs/promises'
 import { join } from 'path'
 import { parseJsonlLine } from './reader'
-import type { Issue } from './types'
+import { diff, computeChanges, hasChanges } from './diff'
+import type { Issue, Changes } from './types'
+import type { BeadsStore } from './store'
+
+/**
+ * Default checkpoint filename, stored next to issues.jsonl
+ */
+export const CHECKPOINT_FILE = 'issues.checkpoint.jsonl'
 
 /**
  * Watcher event types
  */
-export type WatcherEventType = 'created' | 'updated' | 'closed' | 'reopened'
+export type WatcherEventType = 'created' | 'updated' | 'closed' | 'reopened' | 'deleted'
 
 /**
  * Event emitted when an issue changes
@@ -21,6 +28,15 @@ export interface WatcherEvent {
   type: WatcherEventType
   issue: Issue
   previousIssue?: Issue
+  changes?: Changes
+}
+
+/**
+ * Snapshot passed to change handlers
+ */
+export interface WatcherSnapshot {
+  previous: Map<string, Issue>
+  current: Map<string, Issue>
 }
 
 /**
@@ -28,6 +44,18 @@ export interface WatcherEvent {
  */
 export interface WatcherOptions {
   debounceMs?: number
+  /**
+   * Persist the last processed snapshot so changes made while the watcher
+   * was stopped are replayed on start. `true` uses .beads/issues.checkpoint.jsonl,
+   * a string sets a custom path. It is saved once the change handlers of
+   * a change have finished.
+   */
+  checkpoint?: boolean | string
+  /**
+   * Watch a store's subscription instead of issues.jsonl
+   * Checkpoints and debouncing do not apply
+   */
+  store?: BeadsStore
 }
 
 /**
@@ -37,174 +65,332 @@ export interface Watcher {
   start(): Promise<void>
   stop(): Promise<void>
   isRunning(): boolean
-  on(event: 'issue', handler: (event: WatcherEvent) => void): void
-  on(event: 'change', handler: () => void): void
+  /** Async handlers are awaited before the watcher reads the next change */
+  on(event: 'issue', handler: (event: WatcherEvent) => void | Promise<void>): void
+  on(event: 'change', handler: (snapshot: WatcherSnapshot) => void | Promise<void>): void
   on(event: 'error', handler: (error: Error) => void): void
 }
 
+/**
+ * Parse JSONL content into a map of issues (last occurrence wins)
+ */
+function parseIssues(content: string): Map<string, Issue> {
+  const issues = new Map<string, Issue>()
+  for (const line of content.split('\n')) {
+    const issue = parseJsonlLine(line)
+    if (issue) {
+      issues.set(issue.id, issue)
+    }
+  }
+  return issues
+}
+
+/**
+ * Compute the watcher events between two versions of issues.jsonl
+ * Used to replay changes from a checkpoint or a baseline (e.g. a git ref)
+ */
+export async function diffEvents(
+  before: string,
+  after: string
+): Promise<{ events: WatcherEvent[]; snapshot: WatcherSnapshot }> {
+  const previous = parseIssues(before)
+  const current = parseIssues(after)
+  const result = await diff({ before, after })
+  const events: WatcherEvent[] = []
+
+  for (const issue of result.created) {
+    events.push({ type: 'created', issue })
+  }
+
+  for (const { before: previousIssue, after: issue, changes } of result.updated) {
+    if (!hasChanges(changes)) continue
+    const type: WatcherEventType =
+      changes.status && previousIssue.status === 'closed' ? 'reopened' : 'updated'
+    events.push({ type, issue, previousIssue, changes })
+  }
+
+  for (const issue of result.closed) {
+    const previousIssue = previous.get(issue.id)
+    const changes = previousIssue ? computeChanges(previousIssue, issue) : undefined
+    events.push({ type: 'closed', issue, previousIssue, changes })
+  }
+
+  for (const issue of result.deleted) {
+    events.push({ type: 'deleted', issue, previousIssue: issue })
+  }
+
+  return { events, snapshot: { previous, current } }
+}
+
 /**
  * Create a watcher for a beads directory
  */
 export function createWatcher(beadsDir: string, options: WatcherOptions = {}): Watcher {
   const debounceMs = options.debounceMs ?? 100
   const jsonlPath = join(beadsDir, 'issues.jsonl')
+  const checkpointPath =
+    typeof options.checkpoint === 'string'
+      ? options.checkpoint
+      : options.checkpoint
+        ? join(beadsDir, CHECKPOINT_FILE)
+        : null
 
   let fsWatcher: ReturnType<typeof watch> | null = null
   let pollInterval: ReturnType<typeof setTimeout> | null = null
   let running = false
-  let lastSize = 0
+  let lastHash: number | bigint | null = null
   let knownIssues = new Map<string, Issue>()
   let debounceTimer: ReturnType<typeof setTimeout> | null = null
-  let lastPolledSize = 0
-
-  const issueHandlers: Array<(event: WatcherEvent) => void> = []
-  const changeHandlers: Array<() => void> = []
+  let lastPolledStamp = ''
+  let unsubscribe: (() => void) | null = null
+  // Pending start(), so a stop() made meanwhile waits for it
+  let starting: Promise<void> | null = null
+  // Changes are processed one at a time, in order
+  let processing: Promise<void> = Promise.resolve()
+
+  const issueHandlers: Array<(event: WatcherEvent) => void | Promise<void>> = []
+  const changeHandlers: Array<(snapshot: WatcherSnapshot) => void | Promise<void>> = []
   const errorHandlers: Array<(error: Error) => void> = []
 
-  async function loadInitialState(): Promise<void> {
+  async function emitIssue(event: WatcherEvent): Promise<void> {
+    for (const handler of issueHandlers) {
+      await handler(event)
+    }
+  }
+
+  async function emitChange(snapshot: WatcherSnapshot): Promise<void> {
+    for (const handler of changeHandlers) {
+      await handler(snapshot)
+    }
+  }
+
+  function emitError(error: Error): void {
+    for (const handler of errorHandlers) {
+      handler(error)
+    }
+  }
+
+  async function saveCheckpoint(content: string): Promise<void> {
+    if (!checkpointPath) return
+
+    // Write-then-rename so a crash never leaves a truncated checkpoint
+    const tmpPath = `${checkpointPath}.tmp`
+    await writeFile(tmpPath, content)
+    await rename(tmpPath, checkpointPath)
+  }
+
+  async function readCheckpoint(): Promise<string | null> {
+    if (!checkpointPath) return null
     try {
-      const content = await readFile(jsonlPath, 'utf-8')
-      const lines = content.split('\n')
-
-      knownIssues.clear()
-      for (const line of lines) {
-        const issue = parseJsonlLine(line)
-        if (issue) {
-          knownIssues.set(issue.id, issue)
-        }
-      }
+      return await readFile(checkpointPath, 'utf-8')
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Replay changes between the stored checkpoint and the current file
+   */
+  async function replay(before: string, after: string): Promise<void> {
+    const { events, snapshot } = await diffEvents(before, after)
+
+    for (const event of events) {
+      await emitIssue(event)
+    }
+
+    await emitChange(snapshot)
+  }
 
-      const stats = await stat(jsonlPath)
-      lastSize = stats.size
+  async function loadInitialState(): Promise<void> {
+    let content: string
+    try {
+      content = await readFile(jsonlPath, 'utf-8')
     } catch {
       // File might not exist yet
-      lastSize = 0
-      knownIssues.clear()
+      lastHash = null
+      knownIssues = new Map()
+      return
     }
-  }
 
-  async function processChanges(): Promise<void> {
+    knownIssues = parseIssues(content)
+    lastHash = Bun.hash(content)
+
+    const checkpoint = await readCheckpoint()
     try {
-      const stats = await stat(jsonlPath)
-      const currentSize = stats.size
+      if (checkpoint !== null && Bun.hash(checkpoint) !== lastHash) {
+        await replay(checkpoint, content)
+      }
+      await saveCheckpoint(content)
+    } catch (error) {
+      emitError(error as Error)
+    }
+  }
 
-      if (currentSize <= lastSize) {
-        // File was truncated or unchanged
-        lastSize = currentSize
-        return
+  /**
+   * Emit events for the differences to the known issues and make the
+   * given issues the known ones; returns the snapshot for change handlers
+   */
+  async function emitDiff(currentIssues: Map<string, Issue>): Promise<WatcherSnapshot> {
+    // Detect created and changed issues
+    for (const [id, issue] of currentIssues) {
+      const previous = knownIssues.get(id)
+
+      if (!previous) {
+        // New issue
+        await emitIssue({ type: 'created', issue })
+        continue
       }
 
-      // Read entire file and find new/changed issues
-      const content = await readFile(jsonlPath, 'utf-8')
-      const lines = content.split('\n')
-      const currentIssues = new Map<string, Issue>()
+      const changes = computeChanges(previous, issue)
+      if (!hasChanges(changes)) continue
 
-      for (const line of lines) {
-        const issue = parseJsonlLine(line)
-        if (issue) {
-          currentIssues.set(issue.id, issue)
+      let type: WatcherEventType = 'updated'
+      if (changes.status) {
+        if (issue.status === 'closed') {
+          type = 'closed'
+        } else if (previous.status === 'closed') {
+          // Was closed, now open/in_progress
+          type = 'reopened'
         }
       }
 
-      // Detect changes
-      for (const [id, issue] of currentIssues) {
-        const previous = knownIssues.get(id)
-
-        if (!previous) {
-          // New issue
-          const event: WatcherEvent = { type: 'created', issue }
-          for (const handler of issueHandlers) {
-            handler(event)
-          }
-        } else if (previous.status !== issue.status) {
-          // Status changed
-          let type: WatcherEventType = 'updated'
-          if (issue.status === 'closed') {
-            type = 'closed'
-          } else if (previous.status === 'closed') {
-            // Was closed, now open/in_progress
-            type = 'reopened'
-          }
-
-          const event: WatcherEvent = { type, issue, previousIssue: previous }
-          for (const handler of issueHandlers) {
-            handler(event)
-          }
-        }
+      await emitIssue({ type, issue, previousIssue: previous, changes })
+    }
+
+    // Detect deleted issues
+    for (const [id, previous] of knownIssues) {
+      if (!currentIssues.has(id)) {
+        await emitIssue({ type: 'deleted', issue: previous, previousIssue: previous })
       }
+    }
 
-      // Update known state
-      knownIssues = currentIssues
-      lastSize = currentSize
+    // Update known state
+    const snapshot: WatcherSnapshot = { previous: knownIssues, current: currentIssues }
+    knownIssues = currentIssues
+    return snapshot
+  }
 
-      // Emit change event
-      for (const handler of changeHandlers) {
-        handler()
+  async function processChanges(): Promise<void> {
+    try {
+      let content: string
+      try {
+        content = await readFile(jsonlPath, 'utf-8')
+      } catch (error) {
+        // File is briefly missing while bd replaces it - wait for the next change
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+        throw error
       }
+
+      // Compare content rather than size so rewrites and compactions are seen
+      const hash = Bun.hash(content)
+      if (hash === lastHash) return
+
+      const snapshot = await emitDiff(parseIssues(content))
+      lastHash = hash
+
+      // Emit change event
+      await emitChange(snapshot)
+
+      await saveCheckpoint(content)
     } catch (error) {
-      for (const handler of errorHandlers) {
-        handler(error as Error)
-      }
+      emitError(error as Error)
+    }
+  }
+
+  async function processStoreChange(issues: Issue[]): Promise<void> {
+    try {
+      await emitChange(await emitDiff(new Map(issues.map((issue) => [issue.id, issue]))))
+    } catch (error) {
+      emitError(error as Error)
     }
   }
 
+  async function startStore(store: BeadsStore): Promise<void> {
+    const issues = await store.load()
+    knownIssues = new Map(issues.map((issue) => [issue.id, issue]))
+    unsubscribe = store.subscribe((current) => {
+      processing = processing.then(() => processStoreChange(current))
+    })
+    running = true
+  }
+
   function debouncedProcess(): void {
     if (debounceTimer) {
       clearTimeout(debounceTimer)
     }
     debounceTimer = setTimeout(() => {
-      processChanges()
+      processing = processing.then(processChanges)
     }, debounceMs)
   }
 
-  return {
-    async start(): Promise<void> {
-      if (running) return
+  /**
+   * Load the initial state and start watching
+   */
+  async function begin(): Promise<void> {
+    if (options.store) {
+      await startStore(options.store)
+      return
+    }
+
+    await loadInitialState()
+
+    // Use fs.watch for instant notifications
+    try {
+      fsWatcher = watch(jsonlPath, { persistent: true }, (eventType) => {
+        if (eventType === 'change') {
+          debouncedProcess()
+        }
+      })
+
+      fsWatcher.on('error', emitError)
+    } catch {
+      // fs.watch may not be available, fall back to polling only
+    }
 
-      await loadInitialState()
+    running = true
 
-      // Use fs.watch for instant notifications
+    // Also use polling as backup (more reliable on some platforms, and
+    // fs.watch loses track of the file when bd replaces it via rename)
+    const fileStamp = (): string => {
+      const file = Bun.file(jsonlPath)
+      return `${file.size}:${file.lastModified}`
+    }
+    try {
+      lastPolledStamp = fileStamp()
+    } catch {
+      lastPolledStamp = ''
+    }
+    const poll = async () => {
+      if (!running) return
       try {
-        fsWatcher = watch(jsonlPath, { persistent: true }, (eventType) => {
-          if (eventType === 'change') {
-            debouncedProcess()
-          }
-        })
-
-        fsWatcher.on('error', (error) => {
-          for (const handler of errorHandlers) {
-            handler(error)
-          }
-        })
+        const stamp = fileStamp()
+        // Only trigger debounce if size or mtime changed since last poll
+        if (stamp !== lastPolledStamp) {
+          lastPolledStamp = stamp
+          debouncedProcess()
+        }
       } catch {
-        // fs.watch may not be available, fall back to polling only
+        // File might not exist
       }
-
-      running = true
-
-      // Also use polling as backup (more reliable on some platforms)
-      lastPolledSize = lastSize
-      const poll = async () => {
-        if (!running) return
-        try {
-          const file = Bun.file(jsonlPath)
-          const size = file.size
-          // Only trigger debounce if size changed since last poll
-          if (size !== lastPolledSize) {
-            lastPolledSize = size
-            debouncedProcess()
-          }
-        } catch {
-          // File might not exist
-        }
-        if (running) {
-          pollInterval = setTimeout(poll, 50)
-        }
+      if (running) {
+        pollInterval = setTimeout(poll, 50)
       }
-      pollInterval = setTimeout(poll, 50)
+    }
+    pollInterval = setTimeout(poll, 50)
+  }
+
+  return {
+    async start(): Promise<void> {
+      if (running) return
+
+      starting ??= begin().finally(() => {
+        starting = null
+      })
+      await starting
     },
 
     async stop(): Promise<void> {
+      if (starting) await starting.catch(() => {})
       if (!running) return
 
       if (debounceTimer) {
@@ -222,7 +408,15 @@ export function createWatcher(beadsDir: string, options: WatcherOptions = {}): W
         fsWatcher = null
       }
 
+      if (unsubscribe) {
+        unsubscribe()
+        unsubscribe = null
+      }
+
       running = false
+
+      // Let a change being processed finish emitting
+      await processing
     },
 
     isRunning(): boolean {
@@ -231,9 +425,9 @@ export function createWatcher(beadsDir: string, options: WatcherOptions = {}): W
 
     on: ((event: string, handler: unknown): void => {
       if (event === 'issue') {
-        issueHandlers.push(handler as (event: WatcherEvent) => void)
+        issueHandlers.push(handler as (event: WatcherEvent) => void | Promise<void>)
       } else if (event === 'change') {
-        changeHandlers.push(handler as () => void)
+        changeHandlers.push(handler as (snapshot: WatcherSnapshot) => void | Promise<void>)
       } else if (event === 'error') {
         errorHandlers.push(handler as (error: Error) => void)
       }
@@ -0,0 +1,53 @@
+/**
+ * Worker entry for isolated handler runs
+ * Loads a handler file, runs it once and posts the result back
+ */
+
+import { createRuntime, loadHandlerModule, type ExecutionResult, type HandlerFn, type WorkerMessage, type WorkerRequest } from './runtime'
+import type { ScheduleHandler } from './schedule'
+import type { LogEntry } from './logs'
+import { createMutationPlan } from './plan'
+
+declare var self: Worker
+
+// Aborted when the runtime cancels the run (timeout or shutdown)
+const controller = new AbortController()
+
+async function run(request: WorkerRequest): Promise<ExecutionResult> {
+  const { default: handler } = await loadHandlerModule(request.path)
+  if (typeof handler !== 'function') {
+    return { success: false, error: `${request.path} has no default handler` }
+  }
+
+  // Dry run: continue the runtime's plan, streaming what this handler adds
+  const plan =
+    request.plan &&
+    createMutationPlan(request.plan, (mutation) => self.postMessage({ type: 'mutation', mutation } satisfies WorkerMessage))
+  const runtime = createRuntime(request.beadsDir, { plan, source: request.source })
+  const options = {
+    signal: controller.signal,
+    // Stream entries so they survive the worker being terminated
+    onLog: (entry: LogEntry) => self.postMessage({ type: 'log', entry } satisfies WorkerMessage),
+  }
+
+  return request.kind === 'schedule'
+    ? runtime.executeSchedule(request.cron, handler as ScheduleHandler, request.run, options)
+    : runtime.execute(request.event, handler as HandlerFn, request.data, options)
+}
+
+self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
+  const message = event.data
+
+  if (message.type === 'abort') {
+    controller.abort(new Error('Handler cancelled'))
+  } else if (message.type === 'run') {
+    let result: ExecutionResult
+    try {
+      result = await run(message.request)
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+    // Logs were streamed already
+    self.postMessage({ type: 'result', result: { ...result, logs: undefined } } satisfies WorkerMessage)
+  }
+}
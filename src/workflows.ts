@@ -5,6 +5,8 @@
 
 import { readFile, appendFile, access } from 'fs/promises'
 import { join } from 'path'
+import { randomUUID } from 'crypto'
+import type { Changes } from './types'
 
 /**
  * Workflow record types
@@ -17,6 +19,7 @@ export type WorkflowTrigger = 'push' | 'schedule' | 'workflow_dispatch' | 'daemo
  * Base workflow record
  */
 export interface WorkflowRecordBase {
+  id?: string
   type: WorkflowType
   status: WorkflowStatus
   handler: string
@@ -25,6 +28,24 @@ export interface WorkflowRecordBase {
   duration: number
   triggered_at?: string
   error?: string
+  /** Id of the failed record this run retried */
+  retry_of?: string
+  /** Attempt number (from 1) for handlers configured with retries */
+  attempt?: number
+  /** Set when the run failed by exceeding its timeout */
+  timed_out?: boolean
+  /** Captured output of the run, relative to the beads directory (logs/<id>.log) */
+  log?: string
+}
+
+/**
+ * Event data of a failed run beyond its issue, kept so a retry can rebuild it
+ * Other issues are stored by id and read again when retrying
+ */
+export interface RecordedEventData {
+  blocker?: string
+  dependency?: string
+  changes?: Changes
 }
 
 /**
@@ -34,6 +55,10 @@ export interface IssueWorkflowRecord extends WorkflowRecordBase {
   type: 'issue'
   issue: string
   event: string
+  /** Version of the issue state the handler ran against */
+  version?: string
+  /** Set on failed runs whose event carried more than the issue */
+  event_data?: RecordedEventData
 }
 
 /**
@@ -42,6 +67,10 @@ export interface IssueWorkflowRecord extends WorkflowRecordBase {
 export interface ScheduleWorkflowRecord extends WorkflowRecordBase {
   type: 'schedule'
   cron: string
+  /** Fire time the run was scheduled for (differs from triggered_at when catching up) */
+  scheduled_at?: string
+  /** Time zone the cron expression was evaluated in */
+  timezone?: string
 }
 
 /**
@@ -60,8 +89,10 @@ export type WorkflowRecord = IssueWorkflowRecord | ScheduleWorkflowRecord | Manu
 
 /**
  * Input for recording a workflow execution
+ * (Omit distributed over the union so each record type keeps its own fields)
  */
-export type RecordInput = Omit<WorkflowRecord, 'triggered_at'>
+type WithoutTriggeredAt<T> = T extends WorkflowRecord ? Omit<T, 'triggered_at'> : never
+export type RecordInput = WithoutTriggeredAt<WorkflowRecord>
 
 /**
  * Filter options for listing workflows
@@ -73,24 +104,65 @@ export interface ListFilter {
 }
 
 /**
- * Retry info returned when marking for retry
+ * Retry info of a failed issue event run
  */
-export interface RetryInfo {
+export interface IssueRetryInfo {
+  type?: 'issue'
+  id?: string
   issue: string
   event: string
   handler: string
   error?: string
+  data?: RecordedEventData
 }
 
+/**
+ * Retry info of a failed scheduled run
+ */
+export interface ScheduleRetryInfo {
+  type: 'schedule'
+  id?: string
+  handler: string
+  error?: string
+  cron: string
+  /** Fire time the failed run was for; the retry runs for the same one */
+  scheduledAt: string
+  timezone?: string
+  issue?: never
+  event?: never
+}
+
+/**
+ * Retry info returned when marking for retry
+ */
+export type RetryInfo = IssueRetryInfo | ScheduleRetryInfo
+
 /**
  * Workflows API instance
  */
 export interface WorkflowsApi {
-  record(input: RecordInput): Promise<void>
-  wasExecuted(issue: string, event: string): Promise<boolean>
+  record(input: RecordInput): Promise<WorkflowRecord>
+  wasExecuted(issue: string, event: string, options?: { version?: string; handler?: string }): Promise<boolean>
   list(filter?: ListFilter): Promise<WorkflowRecord[]>
   listFailed(): Promise<WorkflowRecord[]>
-  retry(issue: string, event: string): Promise<RetryInfo | null>
+  /** Issue events and scheduled fire times whose latest attempt failed */
+  listRetryable(): Promise<RetryInfo[]>
+  retry(issue: string, event: string, handler?: string): Promise<IssueRetryInfo | null>
+}
+
+/**
+ * Convert a handler event name to the event stored in records
+ * Issue events are stored without their prefix ('issue.closed' -> 'closed')
+ */
+export function toRecordEvent(eventName: string): string {
+  return eventName.startsWith('issue.') ? eventName.slice('issue.'.length) : eventName
+}
+
+/**
+ * Convert a recorded event back to the handler event name
+ */
+export function fromRecordEvent(event: string): string {
+  return event.includes('.') ? event : `issue.${event}`
 }
 
 /**
@@ -110,26 +182,80 @@ export function Workflows(beadsDir: string): WorkflowsApi {
     }
   }
 
+  function toRetryInfo(record: IssueWorkflowRecord): IssueRetryInfo {
+    return {
+      id: record.id,
+      issue: record.issue,
+      event: record.event,
+      handler: record.handler,
+      error: record.error,
+      data: record.event_data,
+    }
+  }
+
+  function toScheduleRetryInfo(record: ScheduleWorkflowRecord): ScheduleRetryInfo {
+    return {
+      type: 'schedule',
+      id: record.id,
+      handler: record.handler,
+      error: record.error,
+      cron: record.cron,
+      scheduledAt: (record.scheduled_at ?? record.triggered_at)!,
+      timezone: record.timezone,
+    }
+  }
+
+  /**
+   * Latest record per issue/event/handler and per handler/fire time, in
+   * first-seen order
+   */
+  function latestRuns(records: WorkflowRecord[]): Array<IssueWorkflowRecord | ScheduleWorkflowRecord> {
+    const latest = new Map<string, IssueWorkflowRecord | ScheduleWorkflowRecord>()
+    for (const r of records) {
+      if (r.type === 'issue') {
+        latest.set(`issue\u0000${r.issue}\u0000${r.event}\u0000${r.handler}`, r)
+      } else if (r.type === 'schedule') {
+        latest.set(`schedule\u0000${r.handler}\u0000${r.scheduled_at ?? r.triggered_at}`, r)
+      }
+    }
+    return Array.from(latest.values())
+  }
+
+  /**
+   * Latest issue record per issue/event/handler, in first-seen order
+   */
+  function latestByEvent(records: WorkflowRecord[]): IssueWorkflowRecord[] {
+    return latestRuns(records).filter((r): r is IssueWorkflowRecord => r.type === 'issue')
+  }
+
   return {
-    async record(input: RecordInput): Promise<void> {
+    async record(input: RecordInput): Promise<WorkflowRecord> {
       const record: WorkflowRecord = {
+        id: randomUUID(),
         ...input,
         triggered_at: new Date().toISOString(),
       } as WorkflowRecord
 
       const line = JSON.stringify(record) + '\n'
       await appendFile(workflowsPath, line)
+      return record
     },
 
-    async wasExecuted(issue: string, event: string): Promise<boolean> {
+    async wasExecuted(
+      issue: string,
+      event: string,
+      options: { version?: string; handler?: string } = {}
+    ): Promise<boolean> {
       const records = await readRecords()
 
       return records.some(
         (r) =>
           r.type === 'issue' &&
-          (r as IssueWorkflowRecord).issue === issue &&
-          (r as IssueWorkflowRecord).event === event &&
-          r.status === 'success'
+          r.issue === issue &&
+          r.event === event &&
+          r.status === 'success' &&
+          (options.version === undefined || r.version === options.version) &&
+          (options.handler === undefined || r.handler === options.handler)
       )
     },
 
@@ -158,27 +284,26 @@ export function Workflows(beadsDir: string): WorkflowsApi {
       return records.filter((r) => r.status === 'failed')
     },
 
-    async retry(issue: string, event: string): Promise<RetryInfo | null> {
+    async listRetryable(): Promise<RetryInfo[]> {
+      const records = await readRecords()
+      return latestRuns(records)
+        .filter((r) => r.status === 'failed')
+        .map((r) => (r.type === 'issue' ? toRetryInfo(r) : toScheduleRetryInfo(r)))
+    },
+
+    async retry(issue: string, event: string, handler?: string): Promise<IssueRetryInfo | null> {
       const records = await readRecords()
 
-      const failedRecord = records.find(
+      // Only the latest attempt per handler matters - a later success means nothing to retry
+      const latest = latestByEvent(records).find(
         (r) =>
-          r.type === 'issue' &&
-          (r as IssueWorkflowRecord).issue === issue &&
-          (r as IssueWorkflowRecord).event === event &&
+          r.issue === issue &&
+          r.event === event &&
+          (handler === undefined || r.handler === handler) &&
           r.status === 'failed'
-      ) as IssueWorkflowRecord | undefined
-
-      if (!failedRecord) {
-        return null
-      }
+      )
 
-      return {
-        issue: failedRecord.issue,
-        event: failedRecord.event,
-        handler: failedRecord.handler,
-        error: failedRecord.error,
-      }
+      return latest ? toRetryInfo(latest) : null
     },
   }
 }
@@ -1,5 +1,6 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
-import { mkdir, writeFile, rm } from 'fs/promises'
+import { Database } from 'bun:sqlite'
+import { mkdir, writeFile, rm, appendFile } from 'fs/promises'
 import { join } from 'path'
 import { Beads, type BeadsInstance } from '../src/beads'
 
@@ -116,6 +117,32 @@ describe('Beads factory', () => {
     })
   })
 
+  describe('issue source', () => {
+    beforeEach(() => {
+      const db = new Database(join(BEADS_DIR, 'beads.db'))
+      db.exec(`CREATE TABLE issues (id TEXT PRIMARY KEY, title TEXT, status TEXT, priority INTEGER, issue_type TEXT, created_at TEXT, updated_at TEXT)`)
+      db.exec(`INSERT INTO issues VALUES ('proj-1', 'Task 1 (updated)', 'in_progress', 2, 'task', '2025-01-01 10:00:00', '2025-01-03 10:00:00')`)
+      db.close()
+    })
+
+    test('reads the beads database when present', async () => {
+      const beads = Beads({ path: BEADS_DIR })
+
+      const issue = await beads.issues.get('proj-1')
+
+      expect(issue!.title).toBe('Task 1 (updated)')
+      expect(await beads.epics.list()).toEqual([])
+    })
+
+    test('source: jsonl reads issues.jsonl', async () => {
+      const beads = Beads({ path: BEADS_DIR, source: 'jsonl' })
+
+      const issue = await beads.issues.get('proj-1')
+
+      expect(issue!.title).toBe('Task 1')
+    })
+  })
+
   describe('epics API through Beads', () => {
     test('epics.get() works', async () => {
       const beads = Beads({ path: BEADS_DIR })
@@ -158,4 +185,69 @@ describe('Beads factory', () => {
       expect(called).toBe(true)
     })
   })
+
+  describe('watching', () => {
+    test('unwatch right after watch: true stops the watcher', async () => {
+      const script = join(TEST_DIR, 'watch.ts')
+      await writeFile(script, `
+import { Beads } from ${JSON.stringify(join(import.meta.dir, '../src/beads'))}
+const beads = Beads({ path: ${JSON.stringify(BEADS_DIR)}, watch: true })
+await beads.unwatch()
+console.log('watching:', beads.isWatching())
+`)
+
+      const proc = Bun.spawn(['bun', script], { stdout: 'pipe', stderr: 'pipe' })
+      const timer = setTimeout(() => proc.kill(), 5000)
+      const exitCode = await proc.exited
+      clearTimeout(timer)
+
+      expect(exitCode).toBe(0)
+      expect(await new Response(proc.stdout).text()).toBe('watching: false\n')
+    })
+
+    test('dispatches watcher events to hooks', async () => {
+      const beads = Beads({ path: BEADS_DIR })
+      const created: string[] = []
+      const closed: string[] = []
+
+      beads.on.issue.created((issue) => { created.push(issue.id) })
+      beads.on.issue.closed((issue) => { closed.push(issue.id) })
+
+      await beads.watch()
+      expect(beads.isWatching()).toBe(true)
+
+      await appendFile(
+        join(BEADS_DIR, 'issues.jsonl'),
+        '\n' + [
+          { id: 'proj-3', title: 'Task 3', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-03T10:00:00Z', updated_at: '2025-01-03T10:00:00Z' },
+          { id: 'proj-1', title: 'Task 1', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-03T10:00:00Z', closed_at: '2025-01-03T10:00:00Z' },
+        ].map(i => JSON.stringify(i)).join('\n') + '\n'
+      )
+
+      await new Promise(r => setTimeout(r, 250))
+      await beads.unwatch()
+
+      expect(beads.isWatching()).toBe(false)
+      expect(created).toEqual(['proj-3'])
+      expect(closed).toEqual(['proj-1'])
+    })
+
+    test('fires issue.started when work begins', async () => {
+      const beads = Beads({ path: BEADS_DIR, watch: true })
+      const started: string[] = []
+
+      beads.on.issue.started((issue) => { started.push(issue.id) })
+
+      await new Promise(r => setTimeout(r, 100))
+      await appendFile(
+        join(BEADS_DIR, 'issues.jsonl'),
+        '\n' + JSON.stringify({ id: 'proj-1', title: 'Task 1', status: 'in_progress', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-03T10:00:00Z' }) + '\n'
+      )
+
+      await new Promise(r => setTimeout(r, 250))
+      await beads.unwatch()
+
+      expect(started).toEqual(['proj-1'])
+    })
+  })
 })
@@ -0,0 +1,173 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { createIssueCache, getIssueCache, disposeIssueCache, indexIssues } from '../src/cache'
+import { createMemoryStore, type BeadsStore } from '../src/store'
+import { createIssuesApi } from '../src/issues'
+import { createEpicsApi } from '../src/epics'
+import { createMutationPlan } from '../src/plan'
+import { createRuntime } from '../src/runtime'
+import { Beads } from '../src/beads'
+import type { Issue } from '../src/types'
+
+const TEST_DIR = '/tmp/beads-cache-test/.beads'
+
+function issue(id: string, fields: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    created: new Date('2025-01-01T10:00:00Z'),
+    updated: new Date('2025-01-01T10:00:00Z'),
+    dependsOn: [],
+    blocks: [],
+    ...fields,
+  }
+}
+
+// Store counting loads, to see when the cache reloads
+function countingStore(inner: BeadsStore): BeadsStore & { loads: number } {
+  const store = {
+    ...inner,
+    loads: 0,
+    async load() {
+      store.loads++
+      return inner.load()
+    },
+  }
+  return store
+}
+
+describe('cache', () => {
+  test('indexes issues by id, status, assignee and label', () => {
+    const index = indexIssues([
+      issue('bw-1', { assignee: 'alice', labels: ['ui', 'bug'] }),
+      issue('bw-2', { status: 'closed', labels: ['ui'] }),
+    ])
+
+    expect(index.byId.get('bw-2')!.status).toBe('closed')
+    expect(index.byStatus.get('open')!.map((i) => i.id)).toEqual(['bw-1'])
+    expect(index.byAssignee.get('alice')!.map((i) => i.id)).toEqual(['bw-1'])
+    expect(index.byLabel.get('ui')!.map((i) => i.id)).toEqual(['bw-1', 'bw-2'])
+  })
+
+  test('reloads only when the store stamp changes', async () => {
+    const store = countingStore(createMemoryStore([issue('bw-1')]))
+    const cache = createIssueCache(store)
+
+    const first = await cache.snapshot()
+    expect(await cache.snapshot()).toBe(first)
+    expect(store.loads).toBe(1)
+
+    await store.mutate({ op: 'close', id: 'bw-1' })
+
+    expect((await cache.snapshot()).byId.get('bw-1')!.status).toBe('closed')
+    expect(store.loads).toBe(2)
+  })
+
+  test('keeps snapshots of stores without a stamp until invalidated', async () => {
+    const { stamp: _, ...inner } = createMemoryStore([issue('bw-1')])
+    const store = countingStore(inner)
+    const cache = createIssueCache(store)
+
+    await cache.snapshot()
+    await store.mutate({ op: 'close', id: 'bw-1' })
+    expect((await cache.snapshot()).byId.get('bw-1')!.status).toBe('open')
+
+    cache.invalidate()
+    expect((await cache.snapshot()).byId.get('bw-1')!.status).toBe('closed')
+    expect(store.loads).toBe(2)
+  })
+
+  test('shares one load between concurrent reads', async () => {
+    const store = countingStore(createMemoryStore([issue('bw-1')]))
+    const cache = createIssueCache(store)
+
+    await Promise.all([cache.snapshot(), cache.snapshot(), cache.snapshot()])
+
+    expect(store.loads).toBe(1)
+  })
+
+  describe('shared between APIs', () => {
+    test('epics see issues closed through the issues API', async () => {
+      const store = createMemoryStore([
+        issue('bw-1', { type: 'epic' }),
+        issue('bw-2', { parent: 'bw-1' }),
+      ])
+      const issues = createIssuesApi('/nonexistent/.beads', { store })
+      const epics = createEpicsApi('/nonexistent/.beads', { store })
+
+      expect((await epics.progress('bw-1')).closed).toBe(0)
+      await issues.close('bw-2')
+
+      expect((await epics.progress('bw-1')).closed).toBe(1)
+    })
+
+    test('dry-run reads see mutations planned through another API', async () => {
+      const store = createMemoryStore([issue('bw-1', { type: 'epic' }), issue('bw-2', { parent: 'bw-1' })])
+      const plan = createMutationPlan()
+      const issues = createIssuesApi('/nonexistent/.beads', { store, plan })
+      const epics = createEpicsApi('/nonexistent/.beads', { store, plan })
+
+      expect((await epics.progress('bw-1')).closed).toBe(0)
+      await issues.close('bw-2')
+
+      expect((await epics.progress('bw-1')).closed).toBe(1)
+      expect((await store.load())[1]!.status).toBe('open')
+    })
+
+    test('issues list uses the label index', async () => {
+      const store = createMemoryStore([issue('bw-1', { labels: ['ui'] }), issue('bw-2', { labels: ['api'] })])
+      const issues = createIssuesApi('/nonexistent/.beads', { store })
+
+      expect((await issues.list({ label: 'ui' })).map((i) => i.id)).toEqual(['bw-1'])
+      expect(await issues.list({ label: 'none' })).toEqual([])
+    })
+  })
+
+  describe('files', () => {
+    const line = (id: string, status: string) =>
+      JSON.stringify({ id, title: id, status, priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' })
+
+    beforeEach(async () => {
+      await rm(TEST_DIR, { recursive: true, force: true })
+      await mkdir(TEST_DIR, { recursive: true })
+      await writeFile(join(TEST_DIR, 'issues.jsonl'), line('bw-1', 'open'))
+    })
+
+    afterEach(async () => {
+      await rm(TEST_DIR, { recursive: true, force: true })
+    })
+
+    test('picks up changes to issues.jsonl without a reload', async () => {
+      const issues = createIssuesApi(TEST_DIR)
+      expect((await issues.get('bw-1'))!.status).toBe('open')
+
+      await writeFile(join(TEST_DIR, 'issues.jsonl'), line('bw-1', 'closed'))
+
+      expect((await issues.get('bw-1'))!.status).toBe('closed')
+    })
+
+    test('is shared per beads directory and source', () => {
+      expect(getIssueCache(TEST_DIR)).toBe(getIssueCache(`${TEST_DIR}/`))
+      expect(getIssueCache(TEST_DIR, { source: 'sqlite' })).not.toBe(getIssueCache(TEST_DIR))
+    })
+
+    test('is shared by Beads() and the runtime', async () => {
+      const beads = Beads({ path: TEST_DIR })
+      const context = await createRuntime(TEST_DIR).createContext('issue.created', { issue: issue('bw-1') })
+
+      expect(await context.globals.issues.get('bw-1')).toBe((await beads.issues.get('bw-1'))!)
+      expect(getIssueCache(TEST_DIR)).toBe(getIssueCache(TEST_DIR, { source: 'auto' }))
+    })
+
+    test('is dropped by disposeIssueCache', () => {
+      const cache = getIssueCache(TEST_DIR)
+      disposeIssueCache(TEST_DIR)
+
+      expect(getIssueCache(TEST_DIR)).not.toBe(cache)
+    })
+  })
+})
@@ -2,6 +2,10 @@ import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm, appendFile, readFile } from 'fs/promises'
 import { join } from 'path'
 import { createDaemon, parseArgs, parseCommand, type Daemon, type DaemonOptions, type Command } from '../src/cli'
+import { Workflows } from '../src/workflows'
+import { every, clearScheduledHandlers } from '../src/schedule'
+import { initWorkflows } from '../src/init'
+import { CHECKPOINT_FILE } from '../src/watcher'
 
 const TEST_DIR = '/tmp/beads-cli-test'
 const BEADS_DIR = join(TEST_DIR, '.beads')
@@ -136,6 +140,409 @@ describe('cli', () => {
 
       expect(handlerCalled).toBe(true)
     })
+    test('triggers on.issue.ready when last blocker closes', async () => {
+      const blocker = { id: 'test-1', title: 'Blocker', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const blocked = { id: 'test-2', title: 'Blocked', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'test-2', depends_on_id: 'test-1', type: 'blocks' }] }
+      await writeFile(JSONL_PATH, [blocker, blocked].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.ready.ts'),
+        'export default (ctx) => {}'
+      )
+
+      const executed: string[] = []
+      const daemon = createDaemon({
+        path: BEADS_DIR,
+        onHandlerExecuted: (event) => {
+          executed.push(event)
+        },
+      })
+
+      await daemon.start()
+
+      await appendFile(JSONL_PATH, JSON.stringify({ ...blocker, status: 'closed', updated_at: '2025-01-02T10:00:00Z' }) + '\n')
+
+      await new Promise((r) => setTimeout(r, 300))
+
+      await daemon.stop()
+
+      expect(executed).toEqual(['issue.ready'])
+    })
+
+    test('triggers on.epic.completed when last child closes', async () => {
+      const epic = { id: 'epic-1', title: 'Epic', status: 'open', priority: 1, issue_type: 'epic', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const child = { id: 'test-1', title: 'Child', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'test-1', depends_on_id: 'epic-1', type: 'parent-child' }] }
+      await writeFile(JSONL_PATH, [epic, child].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      await writeFile(
+        join(BEADS_DIR, 'on.epic.completed.ts'),
+        `export default (ctx) => {
+          if (ctx.epic.id !== 'epic-1' || ctx.children.length !== 1) throw new Error('bad context')
+        }`
+      )
+
+      const results: Array<{ event: string; success: boolean }> = []
+      const daemon = createDaemon({
+        path: BEADS_DIR,
+        onHandlerExecuted: (event, result) => {
+          results.push({ event, success: result.success })
+        },
+      })
+
+      await daemon.start()
+
+      await appendFile(JSONL_PATH, JSON.stringify({ ...child, status: 'closed', updated_at: '2025-01-02T10:00:00Z' }) + '\n')
+
+      await new Promise((r) => setTimeout(r, 300))
+
+      await daemon.stop()
+
+      expect(results).toEqual([{ event: 'epic.completed', success: true }])
+    })
+  })
+
+  describe('multiple handlers', () => {
+    const existing = { id: 'test-1', title: 'Existing', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+    const closed = { ...existing, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+
+    async function closeIssue(): Promise<string> {
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, JSON.stringify(existing) + '\n')
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n')
+      return beforePath
+    }
+
+    function appendingHandler(label: string, extra = ''): string {
+      return `import { appendFileSync } from 'fs'
+${extra}
+export default () => { appendFileSync('${join(TEST_DIR, 'order.txt')}', '${label}\\n') }`
+    }
+
+    test('runs every handler for an event in order and records each', async () => {
+      const dir = join(BEADS_DIR, 'workflows', 'on.issue.closed')
+      await mkdir(dir, { recursive: true })
+      await writeFile(join(dir, '20-notify.ts'), appendingHandler('notify'))
+      await writeFile(join(dir, '10-close-epic.ts'), appendingHandler('close-epic'))
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.audit.ts'), appendingHandler('audit', 'export const order = 30'))
+
+      const before = await closeIssue()
+      const summary = await createDaemon({ path: BEADS_DIR, before }).runOnce()
+
+      expect(summary.executed).toBe(3)
+      expect(await readFile(join(TEST_DIR, 'order.txt'), 'utf-8')).toBe('close-epic\nnotify\naudit\n')
+
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records.map((r) => r.handler)).toEqual([
+        'workflows/on.issue.closed/10-close-epic.ts',
+        'workflows/on.issue.closed/20-notify.ts',
+        'on.issue.closed.audit.ts',
+      ])
+    })
+
+    test('tracks idempotency per handler', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), appendingHandler('first'))
+
+      const before = await closeIssue()
+      await createDaemon({ path: BEADS_DIR, before }).runOnce()
+
+      // A handler added later still runs for the same transition
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.second.ts'), appendingHandler('second'))
+      const summary = await createDaemon({ path: BEADS_DIR, before }).runOnce()
+
+      expect(summary.executed).toBe(1)
+      expect(await readFile(join(TEST_DIR, 'order.txt'), 'utf-8')).toBe('first\nsecond\n')
+    })
+
+    test('retry re-runs only the failed handler', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ok.ts'), appendingHandler('ok'))
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.broken.ts'), 'export default () => { throw new Error("broken") }')
+
+      const before = await closeIssue()
+      const daemon = createDaemon({ path: BEADS_DIR, before })
+      await daemon.runOnce()
+
+      const [target] = await Workflows(BEADS_DIR).listRetryable()
+      expect(target!.handler).toBe('on.issue.closed.broken.ts')
+
+      await daemon.retry(target!)
+
+      expect(await readFile(join(TEST_DIR, 'order.txt'), 'utf-8')).toBe('ok\n')
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records.length).toBe(3)
+      expect(records[2]).toMatchObject({ handler: 'on.issue.closed.broken.ts', retry_of: target!.id })
+    })
+  })
+
+  describe('handler config', () => {
+    const existing = { id: 'test-1', title: 'Existing', status: 'open', priority: 1, issue_type: 'bug', labels: ['security'], created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+    const closed = { ...existing, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+
+    async function closeIssue(): Promise<string> {
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, JSON.stringify(existing) + '\n')
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n')
+      return beforePath
+    }
+
+    test('runs only handlers whose when filter matches', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.bugs.ts'), `export const config = { when: { type: 'bug', priority: [0, 1], labels: ['security'] } }
+export default () => {}`)
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.features.ts'), `export const config = { when: { type: 'feature' } }
+export default () => {}`)
+
+      const summary = await createDaemon({ path: BEADS_DIR, before: await closeIssue() }).runOnce()
+
+      expect(summary.executed).toBe(1)
+      expect((await Workflows(BEADS_DIR).list()).map((r) => r.handler)).toEqual(['on.issue.closed.bugs.ts'])
+    })
+
+    test('skips disabled handlers', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `export const config = { enabled: false }
+export default () => {}`)
+
+      const daemon = createDaemon({ path: BEADS_DIR, before: await closeIssue() })
+      const summary = await daemon.runOnce()
+
+      expect(summary.executed).toBe(0)
+      expect(daemon.getDiagnostics()).toEqual([])
+    })
+
+    test('reports invalid config', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `export const config = { retries: -1 }
+export default () => {}`)
+
+      const originalError = console.error
+      console.error = () => {}
+      try {
+        const daemon = createDaemon({ path: BEADS_DIR, before: await closeIssue() })
+        const summary = await daemon.runOnce()
+
+        expect(summary.executed).toBe(0)
+        expect(daemon.getDiagnostics()).toEqual([
+          {
+            path: join(BEADS_DIR, 'on.issue.closed.ts'),
+            filename: 'on.issue.closed.ts',
+            message: 'Invalid config: retries must be an integer >= 0',
+          },
+        ])
+      } finally {
+        console.error = originalError
+      }
+    })
+
+    test('retries failed runs and records each attempt', async () => {
+      const counter = join(TEST_DIR, 'attempts.txt')
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `import { appendFileSync, readFileSync } from 'fs'
+export const config = { retries: 2, backoff: { type: 'fixed', delayMs: 1 } }
+export default () => {
+  appendFileSync('${counter}', 'x')
+  if (readFileSync('${counter}', 'utf-8').length < 2) throw new Error('flaky')
+}`)
+
+      const summary = await createDaemon({ path: BEADS_DIR, before: await closeIssue() }).runOnce()
+
+      expect(summary).toMatchObject({ executed: 1, failed: 0 })
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records).toMatchObject([
+        { status: 'failed', attempt: 1, error: 'flaky' },
+        { status: 'success', attempt: 2, retry_of: records[0]!.id },
+      ])
+    })
+
+    test('fails runs that exceed timeoutMs', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `export const config = { timeoutMs: 20 }
+export default () => new Promise((resolve) => setTimeout(resolve, 200))`)
+
+      const summary = await createDaemon({ path: BEADS_DIR, before: await closeIssue() }).runOnce()
+
+      expect(summary.failed).toBe(1)
+      expect((await Workflows(BEADS_DIR).list())[0]).toMatchObject({ status: 'failed', error: 'Handler timed out after 20ms' })
+    })
+
+    test('isolated handlers that hang are recorded as timed out', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `export const config = { timeoutMs: 50 }
+export default () => { while (true) {} }`)
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.after.ts'), `export default () => {}`)
+
+      const daemon = createDaemon({ path: BEADS_DIR, before: await closeIssue(), isolate: true })
+      const summary = await daemon.runOnce()
+
+      expect(summary).toMatchObject({ executed: 2, failed: 1 })
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records).toMatchObject([
+        { handler: 'on.issue.closed.after.ts', status: 'success' },
+        { handler: 'on.issue.closed.ts', status: 'failed', timed_out: true },
+      ])
+    })
+
+    test('limits concurrent runs of a handler', async () => {
+      const log = join(TEST_DIR, 'concurrency.txt')
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), `import { appendFileSync } from 'fs'
+export const config = { concurrency: 1 }
+export default async ({ issue }) => {
+  appendFileSync('${log}', 'start ' + issue.id + '\\n')
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  appendFileSync('${log}', 'end ' + issue.id + '\\n')
+}`)
+
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n' + JSON.stringify({ ...closed, id: 'test-2' }) + '\n')
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.runOnce()
+
+      // Overlapping runs of the same handler still execute one at a time
+      const retry = (issue: string) => daemon.retry({ issue, event: 'closed', handler: 'on.issue.closed.ts' })
+      await Promise.all([retry('test-1'), retry('test-2')])
+
+      // Either may go first, but never overlapping
+      expect(await readFile(log, 'utf-8')).toMatch(/^start (test-\d)\nend \1\nstart (test-\d)\nend \2\n$/)
+    })
+  })
+
+  describe('dispatch queue', () => {
+    const issue = (id: string) => JSON.stringify({ id, title: id, status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' })
+
+    test('limits how many events are dispatched at once', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), `export default async () => {
+  const g = globalThis as any
+  g.__active = (g.__active ?? 0) + 1
+  g.__peak = Math.max(g.__peak ?? 0, g.__active)
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  g.__active--
+}`)
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, ['a', 'b', 'c', 'd', 'e', 'f'].map(issue).join('\n') + '\n')
+
+      const summary = await createDaemon({ path: BEADS_DIR, before: beforePath, concurrency: 2 }).runOnce()
+
+      expect(summary.executed).toBe(6)
+      expect((globalThis as any).__peak).toBe(2)
+      delete (globalThis as any).__active
+      delete (globalThis as any).__peak
+    })
+
+    test('stop waits for in-flight handlers', async () => {
+      const started = join(TEST_DIR, 'started.txt')
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), `import { writeFileSync } from 'fs'
+export default async () => {
+  writeFileSync('${started}', '')
+  await new Promise((resolve) => setTimeout(resolve, 100))
+}`)
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+      await appendFile(JSONL_PATH, issue('test-1') + '\n')
+
+      while (!(await Bun.file(started).exists())) {
+        await new Promise((r) => setTimeout(r, 10))
+      }
+      await daemon.stop()
+
+      expect(await Workflows(BEADS_DIR).list()).toMatchObject([{ issue: 'test-1', status: 'success' }])
+    })
+  })
+
+  describe('script handlers', () => {
+    test('runs the generated zero-import example handler', async () => {
+      await initWorkflows(BEADS_DIR, { createExample: true })
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Ready one', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+
+      const logs: string[] = []
+      const originalLog = console.log
+      console.log = (...args: unknown[]) => { logs.push(args.join(' ')) }
+      try {
+        const summary = await createDaemon({ path: BEADS_DIR, before: beforePath }).runOnce()
+        expect(summary).toMatchObject({ executed: 1, failed: 0 })
+      } finally {
+        console.log = originalLog
+      }
+
+      expect(logs).toEqual(['Issue ready: test-1 - Ready one', 'Total ready issues: 1'])
+      expect((await Workflows(BEADS_DIR).list())[0]).toMatchObject({ handler: 'on.issue.ready.ts', status: 'success' })
+    })
+  })
+
+  describe('run logs', () => {
+    test('writes each run\'s output to a log linked from its record', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), `export default ({ issue, log }) => {
+  console.log('created', issue.id)
+  log.warn('no assignee')
+}`)
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), 'export default () => {}')
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+
+      const originalLog = console.log
+      const originalWarn = console.warn
+      console.log = console.warn = () => {}
+      try {
+        await createDaemon({ path: BEADS_DIR, before: beforePath }).runOnce()
+      } finally {
+        console.log = originalLog
+        console.warn = originalWarn
+      }
+
+      const [record] = await Workflows(BEADS_DIR).list()
+      expect(record!.log).toBe(`logs/${record!.id}.log`)
+
+      const log = await readFile(join(BEADS_DIR, record!.log!), 'utf-8')
+      expect(log).toMatch(/^\S+ INFO  created test-1\n\S+ WARN  no assignee\n$/)
+    })
+
+    test('records runs without output without a log', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), 'export default () => {}')
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+
+      await createDaemon({ path: BEADS_DIR, before: beforePath }).runOnce()
+
+      const [record] = await Workflows(BEADS_DIR).list()
+      expect(record!.log).toBeUndefined()
+    })
+  })
+
+  describe('dry run', () => {
+    test('plans mutations without writing to the beads directory', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), `export default async ({ issue, issues }) => {
+  await issues.update(issue.id, { assignee: 'triage' })
+}`)
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+
+      const daemon = createDaemon({ path: BEADS_DIR, before: beforePath, dryRun: true })
+      const summary = await daemon.runOnce()
+
+      expect(summary).toMatchObject({ executed: 1, failed: 0 })
+      expect(daemon.getPlan()).toEqual([{ op: 'update', id: 'test-1', options: { assignee: 'triage' } }])
+      expect(await Workflows(BEADS_DIR).list()).toEqual([])
+      expect(await Bun.file(join(BEADS_DIR, CHECKPOINT_FILE)).exists()).toBe(false)
+    })
+
+    test('later handlers read the planned changes', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), `export default async ({ issue, issues }) => {
+  await issues.update(issue.id, { assignee: 'triage' })
+}`)
+      await writeFile(join(BEADS_DIR, 'every.hour.ts'), `export default async ({ issues }) => {
+  for (const issue of await issues.list({ assignee: 'triage' })) await issues.close(issue.id)
+}`)
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, '')
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+
+      const daemon = createDaemon({ path: BEADS_DIR, before: beforePath, dryRun: true })
+      await daemon.runOnce()
+      await daemon.runSchedule('0 * * * *')
+
+      expect(daemon.getPlan()).toEqual([
+        { op: 'update', id: 'test-1', options: { assignee: 'triage' } },
+        { op: 'close', id: 'test-1' },
+      ])
+    })
   })
 
   describe('error handling', () => {
@@ -184,11 +591,518 @@ describe('cli', () => {
       expect(cmd.event).toBe('closed')
     })
 
+    test('parses run --once --since and --before', () => {
+      const cmd = parseCommand(['run', '--once', '--since', 'HEAD~1', '--before', '/tmp/before.jsonl'])
+      expect(cmd.command).toBe('run')
+      expect(cmd.once).toBe(true)
+      expect(cmd.since).toBe('HEAD~1')
+      expect(cmd.before).toBe('/tmp/before.jsonl')
+    })
+
     test('parses retry --all-failed', () => {
       const cmd = parseCommand(['retry', '--all-failed'])
       expect(cmd.command).toBe('retry')
       expect(cmd.allFailed).toBe(true)
     })
+
+    test('parses logs command', () => {
+      expect(parseCommand(['logs', 'bw-123'])).toMatchObject({ command: 'logs', target: 'bw-123' })
+      expect(parseCommand(['logs']).target).toBeUndefined()
+    })
+
+    test('parses run --concurrency', () => {
+      expect(parseCommand(['run', '--concurrency', '8']).concurrency).toBe(8)
+      expect(parseCommand(['run', '--concurrency', 'many']).concurrency).toBeUndefined()
+    })
+
+    test('parses run --source', () => {
+      expect(parseCommand(['run', '--source', 'sqlite']).source).toBe('sqlite')
+      expect(parseCommand(['run', '--source', 'git']).source).toBeUndefined()
+    })
+
+    test('parses validate command', () => {
+      expect(parseCommand(['validate'])).toMatchObject({ command: 'validate', strict: false })
+      expect(parseCommand(['validate', '--strict']).strict).toBe(true)
+    })
+
+    test('parses run --dry-run', () => {
+      expect(parseCommand(['run', '--once', '--dry-run'])).toMatchObject({ command: 'run', once: true, dryRun: true })
+    })
+
+    test('parses run --isolate', () => {
+      expect(parseCommand(['run', '--once', '--isolate'])).toMatchObject({ command: 'run', once: true, isolate: true })
+    })
+
+    test('parses run --catch-up policy', () => {
+      expect(parseCommand(['run', '--catch-up', 'all']).catchUp).toBe('all')
+      expect(parseCommand(['run', '--catch-up', 'sometimes']).catchUp).toBeUndefined()
+    })
+  })
+
+  describe('idempotency', () => {
+    const existing = { id: 'test-1', title: 'Existing', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+    const closed = { ...existing, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+
+    test('skips events already processed for the same version', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.closed.ts'),
+        'export default (ctx) => {}'
+      )
+
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, JSON.stringify(existing) + '\n')
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n')
+
+      const first = await createDaemon({ path: BEADS_DIR, once: true, before: beforePath }).runOnce()
+      const second = await createDaemon({ path: BEADS_DIR, once: true, before: beforePath }).runOnce()
+
+      expect(first.executed).toBe(1)
+      expect(second.executed).toBe(0)
+
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records.length).toBe(1)
+      expect(records[0]).toMatchObject({
+        issue: 'test-1',
+        event: 'closed',
+        trigger: 'daemon',
+        version: '2025-01-02T10:00:00.000Z',
+      })
+    })
+
+    test('handlers can opt out with config.idempotent = false', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.closed.ts'),
+        'export const config = { idempotent: false }\nexport default (ctx) => {}'
+      )
+
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, JSON.stringify(existing) + '\n')
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n')
+
+      await createDaemon({ path: BEADS_DIR, once: true, before: beforePath }).runOnce()
+      const second = await createDaemon({ path: BEADS_DIR, once: true, before: beforePath }).runOnce()
+
+      expect(second.executed).toBe(1)
+    })
+
+    test('saves the checkpoint once the handlers of a change finish', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.created.ts'),
+        'export default () => new Promise((resolve) => setTimeout(resolve, 600))'
+      )
+      const checkpoint = () => readFile(join(BEADS_DIR, CHECKPOINT_FILE), 'utf-8')
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+      try {
+        await appendFile(JSONL_PATH, JSON.stringify(existing) + '\n')
+        await new Promise((r) => setTimeout(r, 300))
+        expect(await checkpoint()).toBe('')
+
+        await new Promise((r) => setTimeout(r, 800))
+        expect(await checkpoint()).toContain('test-1')
+      } finally {
+        await daemon.stop()
+      }
+    })
+
+    test('records executions in watch mode', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.created.ts'),
+        'export default (ctx) => {}'
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+
+      await appendFile(JSONL_PATH, JSON.stringify(existing) + '\n')
+      await new Promise((r) => setTimeout(r, 300))
+
+      await daemon.stop()
+
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records.length).toBe(1)
+      expect(records[0]).toMatchObject({ issue: 'test-1', event: 'created', status: 'success', trigger: 'daemon' })
+    })
+  })
+
+  describe('schedules', () => {
+    test('schedules every.*.ts handlers when started', async () => {
+      await writeFile(join(BEADS_DIR, 'every.hour.ts'), 'export default (ctx) => {}')
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+      const schedules = daemon.getSchedules()
+      await daemon.stop()
+
+      expect(schedules.length).toBe(1)
+      expect(schedules[0]).toMatchObject({ name: 'every.hour.ts', cron: '0 * * * *' })
+      expect(schedules[0]!.next.getMinutes()).toBe(0)
+      expect(schedules[0]!.next.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    test('keeps same-named handlers of different schedules apart', async () => {
+      for (const schedule of ['hour', 'day']) {
+        await mkdir(join(BEADS_DIR, 'workflows', `every.${schedule}`), { recursive: true })
+        await writeFile(join(BEADS_DIR, 'workflows', `every.${schedule}`, 'report.ts'), 'export default () => {}')
+      }
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+      const schedules = daemon.getSchedules()
+      await daemon.stop()
+      await daemon.runSchedule('0 * * * *')
+
+      expect(schedules.map((s) => s.name).sort()).toEqual(['workflows/every.day/report.ts', 'workflows/every.hour/report.ts'])
+      const records = await Workflows(BEADS_DIR).list({ type: 'schedule' })
+      expect(records.map((r) => r.handler)).toEqual(['workflows/every.hour/report.ts'])
+    })
+
+    test('exported cron overrides the filename', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'every.triage.ts'),
+        "export const cron = '30 8 * * 1'\nexport default () => {}"
+      )
+      await writeFile(
+        join(BEADS_DIR, 'every.fortnight.ts'),
+        'export default () => {}'
+      )
+
+      const originalError = console.error
+      const errors: string[] = []
+      console.error = (message: string) => { errors.push(message) }
+      const daemon = createDaemon({ path: BEADS_DIR })
+      try {
+        await daemon.start()
+      } finally {
+        console.error = originalError
+        await daemon.stop()
+      }
+
+      const schedules = daemon.getSchedules()
+      expect(schedules.map((s) => [s.name, s.cron])).toEqual([['every.triage.ts', '30 8 * * 1']])
+
+      const diagnostics = daemon.getDiagnostics()
+      expect(diagnostics.map((d) => d.filename)).toEqual(['every.fortnight.ts'])
+      expect(errors.some((e) => e.includes('every.fortnight.ts'))).toBe(true)
+    })
+
+    test('runs exported time zones with zoned wall time', async () => {
+      const outputPath = join(TEST_DIR, 'output.txt')
+      await writeFile(
+        join(BEADS_DIR, 'every.weekday-9am.ts'),
+        `import { writeFileSync } from 'fs'
+export const timezone = 'Europe/Berlin'
+export default (ctx) => {
+  writeFileSync('${outputPath}', ctx.localTime.iso)
+}`
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.runSchedule('0 9 * * 1-5', new Date('2025-07-01T07:00:00Z'))
+
+      expect(await readFile(outputPath, 'utf-8')).toBe('2025-07-01T09:00:00+02:00')
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records[0]).toMatchObject({ type: 'schedule', timezone: 'Europe/Berlin' })
+    })
+
+    test('reports invalid exported time zones', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'every.day.ts'),
+        "export const timezone = 'Atlantis/Capital'\nexport default () => {}"
+      )
+
+      const originalError = console.error
+      console.error = () => {}
+      const daemon = createDaemon({ path: BEADS_DIR })
+      try {
+        const summary = await daemon.runSchedule('0 0 * * *')
+        expect(summary.executed).toBe(0)
+      } finally {
+        console.error = originalError
+      }
+
+      expect(daemon.getDiagnostics()[0]!.message).toBe('Invalid time zone "Atlantis/Capital"')
+    })
+
+    test('reports invalid exported cron expressions', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'every.hour.ts'),
+        "export const cron = '61 * * * *'\nexport default () => {}"
+      )
+
+      const originalError = console.error
+      console.error = () => {}
+      const daemon = createDaemon({ path: BEADS_DIR })
+      try {
+        await daemon.runSchedule('0 * * * *')
+      } finally {
+        console.error = originalError
+      }
+
+      expect(daemon.getDiagnostics()[0]!.message).toContain('minute 61 out of range')
+    })
+
+    test('runSchedule executes handlers with a schedule context', async () => {
+      const outputPath = join(TEST_DIR, 'output.txt')
+      await writeFile(
+        join(BEADS_DIR, 'every.day.ts'),
+        `import { writeFileSync } from 'fs'
+export default async (ctx) => {
+  const all = await ctx.issues.list()
+  writeFileSync('${outputPath}', ctx.cron + '|' + ctx.triggeredAt.toISOString() + '|' + all.length)
+}`
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      const summary = await daemon.runSchedule('0 0 * * *', new Date('2025-01-02T00:00:00Z'))
+
+      expect(summary).toEqual({ events: 1, executed: 1, failed: 0 })
+      expect(await readFile(outputPath, 'utf-8')).toBe('0 0 * * *|2025-01-02T00:00:00.000Z|0')
+
+      const records = await Workflows(BEADS_DIR).list()
+      expect(records.length).toBe(1)
+      expect(records[0]).toMatchObject({
+        type: 'schedule',
+        cron: '0 0 * * *',
+        status: 'success',
+        handler: 'every.day.ts',
+        trigger: 'daemon',
+      })
+    })
+
+    test('runSchedule records failed handlers', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'every.week.ts'),
+        'export default () => { throw new Error("weekly failed") }'
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      const summary = await daemon.runSchedule('0 0 * * 0')
+
+      expect(summary.failed).toBe(1)
+      const failed = await Workflows(BEADS_DIR).listFailed()
+      expect(failed[0]).toMatchObject({ type: 'schedule', handler: 'every.week.ts', error: 'weekly failed' })
+    })
+
+    test('catches up on runs missed since the last recorded run', async () => {
+      const outputPath = join(TEST_DIR, 'output.json')
+      await writeFile(
+        join(BEADS_DIR, 'every.hour.ts'),
+        `import { writeFileSync } from 'fs'
+export default (ctx) => {
+  writeFileSync('${outputPath}', JSON.stringify({ lastRunAt: ctx.lastRunAt, missed: ctx.missedRuns.length }))
+}`
+      )
+
+      // Last successful run three hours ago
+      const lastRunAt = new Date(Date.now() - 3 * 60 * 60 * 1000)
+      lastRunAt.setMinutes(0, 0, 0)
+      await Workflows(BEADS_DIR).record({
+        type: 'schedule',
+        cron: '0 * * * *',
+        scheduled_at: lastRunAt.toISOString(),
+        status: 'success',
+        handler: 'every.hour.ts',
+        trigger: 'daemon',
+        commit: '',
+        duration: 1,
+      })
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.start()
+      await new Promise((r) => setTimeout(r, 200))
+      await daemon.stop()
+
+      const output = JSON.parse(await readFile(outputPath, 'utf-8'))
+      expect(output).toEqual({ lastRunAt: lastRunAt.toISOString(), missed: 2 })
+
+      const records = await Workflows(BEADS_DIR).list({ type: 'schedule' })
+      expect(records.length).toBe(2)
+      expect(daemon.getSchedules()[0]!.next.getTime()).toBeGreaterThan(Date.now())
+    })
+
+    test('skip policy does not catch up', async () => {
+      // Fire half an hour away from now, so the latest fire time is never on time
+      const cron = `${(new Date().getMinutes() + 30) % 60} * * * *`
+      await writeFile(join(BEADS_DIR, 'every.hour.ts'), `export const cron = '${cron}'\nexport const catchUp = "skip"\nexport default () => {}`)
+      await Workflows(BEADS_DIR).record({
+        type: 'schedule',
+        cron,
+        scheduled_at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+        status: 'success',
+        handler: 'every.hour.ts',
+        trigger: 'daemon',
+        commit: '',
+        duration: 1,
+      })
+
+      const daemon = createDaemon({ path: BEADS_DIR, catchUp: 'all' })
+      await daemon.start()
+      await new Promise((r) => setTimeout(r, 200))
+      await daemon.stop()
+
+      const records = await Workflows(BEADS_DIR).list({ type: 'schedule' })
+      expect(records.length).toBe(1)
+    })
+
+    test('runSchedule passes missed runs since the last run', async () => {
+      let missed: Date[] = []
+      every('0 0 * * *', (ctx) => {
+        missed = ctx.missedRuns
+      })
+
+      try {
+        await Workflows(BEADS_DIR).record({
+          type: 'schedule',
+          cron: '0 0 * * *',
+          scheduled_at: new Date(2025, 0, 1).toISOString(),
+          status: 'success',
+          handler: "every('0 0 * * *')",
+          trigger: 'schedule',
+          commit: '',
+          duration: 1,
+        })
+
+        const daemon = createDaemon({ path: BEADS_DIR })
+        await daemon.runSchedule('0 0 * * *', new Date(2025, 0, 4, 0, 7))
+
+        expect(missed).toEqual([new Date(2025, 0, 2), new Date(2025, 0, 3)])
+      } finally {
+        clearScheduledHandlers()
+      }
+    })
+
+    test('runs every() registrations', async () => {
+      let triggered: string | undefined
+      every('*/15 * * * *', (ctx) => {
+        triggered = ctx.cron
+      })
+
+      try {
+        const daemon = createDaemon({ path: BEADS_DIR })
+        const summary = await daemon.runSchedule('*/15  * * * *')
+
+        expect(summary.executed).toBe(1)
+        expect(triggered).toBe('*/15 * * * *')
+
+        const records = await Workflows(BEADS_DIR).list()
+        expect(records[0]).toMatchObject({ type: 'schedule', handler: "every('*/15 * * * *')" })
+      } finally {
+        clearScheduledHandlers()
+      }
+    })
+  })
+
+  describe('retry', () => {
+    test('re-executes the handler and links the new record', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.closed.ts'),
+        `export default (ctx) => {
+          if (ctx.issue.title !== 'Current title') throw new Error('stale issue')
+        }`
+      )
+      await writeFile(
+        JSONL_PATH,
+        JSON.stringify({ id: 'test-1', title: 'Current title', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }) + '\n'
+      )
+
+      const workflows = Workflows(BEADS_DIR)
+      const original = await workflows.record({
+        type: 'issue',
+        issue: 'test-1',
+        event: 'closed',
+        status: 'failed',
+        handler: 'on.issue.closed.ts',
+        trigger: 'daemon',
+        commit: 'abc',
+        duration: 1,
+        error: 'boom',
+      })
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      const result = await daemon.retry((await workflows.retry('test-1', 'closed'))!)
+
+      expect(result?.success).toBe(true)
+
+      const records = await workflows.list({ issue: 'test-1' })
+      expect(records.length).toBe(2)
+      expect(records[1]!.status).toBe('success')
+      expect(records[1]!.retry_of).toBe(original.id)
+      expect(await workflows.retry('test-1', 'closed')).toBeNull()
+    })
+
+    test('rebuilds the other issue of a retried event', async () => {
+      const markerPath = join(TEST_DIR, 'fixed')
+      const outputPath = join(TEST_DIR, 'output.txt')
+      await writeFile(
+        join(BEADS_DIR, 'on.dep.added.ts'),
+        `import { existsSync, writeFileSync } from 'fs'
+export default (ctx) => {
+  if (!existsSync('${markerPath}')) throw new Error('not yet')
+  writeFileSync('${outputPath}', ctx.issue.id + ' -> ' + ctx.dependency.id)
+}`
+      )
+      const issue = (id: string, fields = {}) =>
+        JSON.stringify({ id, title: id, status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', ...fields })
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, [issue('test-1'), issue('test-2')].join('\n') + '\n')
+      await writeFile(
+        JSONL_PATH,
+        [issue('test-1', { dependencies: [{ issue_id: 'test-1', depends_on_id: 'test-2', type: 'related' }] }), issue('test-2')].join('\n') + '\n'
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR, before: beforePath })
+      expect((await daemon.runOnce()).failed).toBe(1)
+
+      await writeFile(markerPath, '')
+      const [target] = await Workflows(BEADS_DIR).listRetryable()
+      const result = await daemon.retry(target!)
+
+      expect(result?.success).toBe(true)
+      expect(await readFile(outputPath, 'utf-8')).toBe('test-1 -> test-2')
+    })
+
+    test('retries failed scheduled runs for their fire time', async () => {
+      const markerPath = join(TEST_DIR, 'fixed')
+      const outputPath = join(TEST_DIR, 'output.txt')
+      await writeFile(
+        join(BEADS_DIR, 'every.hour.ts'),
+        `import { existsSync, writeFileSync } from 'fs'
+export default (ctx) => {
+  if (!existsSync('${markerPath}')) throw new Error('not yet')
+  writeFileSync('${outputPath}', ctx.triggeredAt.toISOString())
+}`
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      await daemon.runSchedule('0 * * * *', new Date('2025-01-01T09:00:00Z'))
+
+      await writeFile(markerPath, '')
+      const workflows = Workflows(BEADS_DIR)
+      const [target] = await workflows.listRetryable()
+      expect(target).toMatchObject({ type: 'schedule', handler: 'every.hour.ts', scheduledAt: '2025-01-01T09:00:00.000Z' })
+
+      const result = await daemon.retry(target!)
+
+      expect(result?.success).toBe(true)
+      expect(await readFile(outputPath, 'utf-8')).toBe('2025-01-01T09:00:00.000Z')
+      const records = await workflows.list({ type: 'schedule' })
+      expect(records[1]).toMatchObject({ status: 'success', retry_of: target!.id })
+      expect(await workflows.listRetryable()).toEqual([])
+    })
+
+    test('returns null when the issue no longer exists', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.closed.ts'),
+        'export default (ctx) => {}'
+      )
+
+      const daemon = createDaemon({ path: BEADS_DIR })
+      const result = await daemon.retry({ issue: 'missing-1', event: 'closed', handler: 'on.issue.closed.ts' })
+
+      expect(result).toBeNull()
+    })
   })
 
   describe('--once mode', () => {
@@ -217,5 +1131,92 @@ describe('cli', () => {
       // In once mode, should automatically stop after processing
       expect(daemon.isRunning()).toBe(false)
     })
+
+    test('dispatches changes since --before file and records runs', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.created.ts'),
+        'export default (ctx) => {}'
+      )
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.closed.ts'),
+        `export default (ctx) => { throw new Error('boom') }`
+      )
+
+      const existing = { id: 'test-1', title: 'Existing', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const beforePath = join(TEST_DIR, 'before.jsonl')
+      await writeFile(beforePath, JSON.stringify(existing) + '\n')
+
+      const closed = { ...existing, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+      const created = { ...existing, id: 'test-2', title: 'New' }
+      await writeFile(JSONL_PATH, [closed, created].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      const daemon = createDaemon({ path: BEADS_DIR, once: true, before: beforePath })
+      const summary = await daemon.runOnce()
+
+      expect(summary.executed).toBe(2)
+      expect(summary.failed).toBe(1)
+
+      const records = (await readFile(join(BEADS_DIR, 'workflows.jsonl'), 'utf-8'))
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line))
+
+      // Different issues are dispatched concurrently, so records may interleave
+      expect(records.map(r => `${r.issue} ${r.event} ${r.status}`).sort()).toEqual([
+        'test-1 closed failed',
+        'test-2 created success',
+      ])
+      const failed = records.find(r => r.status === 'failed')
+      expect(failed.handler).toBe('on.issue.closed.ts')
+      expect(failed.error).toBe('boom')
+    })
+
+    test('uses the saved checkpoint as baseline', async () => {
+      await writeFile(
+        join(BEADS_DIR, 'on.issue.created.ts'),
+        'export default (ctx) => {}'
+      )
+
+      const first = { id: 'test-1', title: 'First', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(first) + '\n')
+
+      // First pass seeds the checkpoint without dispatching
+      const seeded = await createDaemon({ path: BEADS_DIR, once: true }).runOnce()
+      expect(seeded.executed).toBe(0)
+
+      await appendFile(JSONL_PATH, JSON.stringify({ ...first, id: 'test-2', title: 'Second' }) + '\n')
+
+      const summary = await createDaemon({ path: BEADS_DIR, once: true }).runOnce()
+      expect(summary.executed).toBe(1)
+      expect(summary.failed).toBe(0)
+    })
+
+    describe('--since', () => {
+      const issue = { id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+
+      beforeEach(async () => {
+        await writeFile(join(BEADS_DIR, 'on.issue.created.ts'), 'export default (ctx) => {}')
+        await writeFile(join(TEST_DIR, 'README.md'), 'test\n')
+        const git = (...args: string[]) =>
+          Bun.spawnSync(['git', '-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: TEST_DIR })
+        git('init', '-q')
+        git('add', 'README.md')
+        git('commit', '-q', '-m', 'init')
+        await writeFile(JSONL_PATH, JSON.stringify(issue) + '\n')
+      })
+
+      test('rejects a ref that is not a commit without running handlers', async () => {
+        const daemon = createDaemon({ path: BEADS_DIR, once: true, since: 'origin/mian' })
+
+        await expect(daemon.runOnce()).rejects.toThrow('--since origin/mian is not a commit')
+        expect(await Workflows(BEADS_DIR).list()).toEqual([])
+      })
+
+      test('treats a commit without issues.jsonl as an empty baseline', async () => {
+        const summary = await createDaemon({ path: BEADS_DIR, once: true, since: 'HEAD' }).runOnce()
+
+        expect(summary.executed).toBe(1)
+      })
+    })
   })
 })
@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test'
+import { parseHandlerConfig, matchesFilter, retryDelay } from '../src/config'
+import type { Issue } from '../src/types'
+
+const issue: Issue = {
+  id: 'test-1',
+  title: 'Test',
+  status: 'open',
+  type: 'bug',
+  priority: 1,
+  labels: ['security', 'backend'],
+  created: new Date(),
+  updated: new Date(),
+  dependsOn: [],
+  blocks: [],
+}
+
+describe('config', () => {
+  describe('parseHandlerConfig', () => {
+    test('returns an empty config when none is exported', () => {
+      expect(parseHandlerConfig(undefined)).toEqual({})
+    })
+
+    test('accepts every option', () => {
+      const config = {
+        when: { type: 'bug', priority: [0, 1], labels: ['security'] },
+        timeoutMs: 5000,
+        retries: 3,
+        backoff: { type: 'exponential', delayMs: 500, maxDelayMs: 10_000 },
+        concurrency: 2,
+        enabled: true,
+        isolate: true,
+        lowMemory: false,
+        idempotent: false,
+      }
+
+      expect(parseHandlerConfig(config)).toEqual(config as any)
+    })
+
+    test('rejects unknown options', () => {
+      expect(() => parseHandlerConfig({ timeout: 10 })).toThrow('Invalid config: unknown option "timeout"')
+      expect(() => parseHandlerConfig({ when: { kind: 'bug' } })).toThrow('unknown when option "kind"')
+    })
+
+    test('rejects bad values', () => {
+      expect(() => parseHandlerConfig('fast')).toThrow('expected an object')
+      expect(() => parseHandlerConfig({ timeoutMs: 0 })).toThrow('timeoutMs must be an integer >= 1')
+      expect(() => parseHandlerConfig({ retries: 1.5 })).toThrow('retries must be an integer >= 0')
+      expect(() => parseHandlerConfig({ concurrency: 0 })).toThrow('concurrency must be an integer >= 1')
+      expect(() => parseHandlerConfig({ enabled: 'no' })).toThrow('enabled must be a boolean')
+      expect(() => parseHandlerConfig({ isolate: 1 })).toThrow('isolate must be a boolean')
+      expect(() => parseHandlerConfig({ idempotent: 'no' })).toThrow('idempotent must be a boolean')
+      expect(() => parseHandlerConfig({ backoff: { type: 'linear' } })).toThrow('backoff.type')
+    })
+
+    test('rejects bad filter values', () => {
+      expect(() => parseHandlerConfig({ when: { type: 'incident' } })).toThrow('bad when.type value "incident"')
+      expect(() => parseHandlerConfig({ when: { priority: [1, 7] } })).toThrow('bad when.priority value 7')
+      expect(() => parseHandlerConfig({ when: { labels: 'security' } })).toThrow('when.labels must be a list of strings')
+    })
+  })
+
+  describe('matchesFilter', () => {
+    test('matches everything without a filter', () => {
+      expect(matchesFilter(undefined, issue)).toBe(true)
+    })
+
+    test('matches single values and lists', () => {
+      expect(matchesFilter({ type: 'bug' }, issue)).toBe(true)
+      expect(matchesFilter({ type: ['task', 'feature'] }, issue)).toBe(false)
+      expect(matchesFilter({ priority: [0, 1] }, issue)).toBe(true)
+      expect(matchesFilter({ status: 'closed' }, issue)).toBe(false)
+    })
+
+    test('requires every label', () => {
+      expect(matchesFilter({ labels: ['security'] }, issue)).toBe(true)
+      expect(matchesFilter({ labels: ['security', 'frontend'] }, issue)).toBe(false)
+    })
+
+    test('requires every field to match', () => {
+      expect(matchesFilter({ type: 'bug', priority: 3 }, issue)).toBe(false)
+    })
+
+    test('does not match a missing assignee or issue', () => {
+      expect(matchesFilter({ assignee: 'alice' }, issue)).toBe(false)
+      expect(matchesFilter({ type: 'bug' }, undefined)).toBe(false)
+    })
+  })
+
+  describe('retryDelay', () => {
+    test('doubles exponential delays up to the maximum', () => {
+      const backoff = { delayMs: 100, maxDelayMs: 300 }
+
+      expect([1, 2, 3].map((n) => retryDelay(backoff, n))).toEqual([100, 200, 300])
+    })
+
+    test('keeps fixed delays', () => {
+      expect(retryDelay({ type: 'fixed', delayMs: 50 }, 4)).toBe(50)
+    })
+
+    test('defaults to one second', () => {
+      expect(retryDelay(undefined, 1)).toBe(1000)
+    })
+  })
+})
@@ -0,0 +1,229 @@
+import { describe, expect, test } from 'bun:test'
+import { parseCron, matchesCron, nextRun, runsBetween, toZonedTime, validateTimeZone } from '../src/cron'
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    test('parses wildcards', () => {
+      const cron = parseCron('* * * * *')
+
+      expect(cron.minutes.size).toBe(60)
+      expect(cron.hours.size).toBe(24)
+      expect(cron.daysOfMonth.size).toBe(31)
+      expect(cron.months.size).toBe(12)
+      expect(cron.daysOfWeek.size).toBe(7)
+      expect(cron.domRestricted).toBe(false)
+      expect(cron.dowRestricted).toBe(false)
+    })
+
+    test('parses ranges, steps and lists', () => {
+      const cron = parseCron('*/15 9-17 1,15 * 1-5')
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45])
+      expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17])
+      expect([...cron.daysOfMonth]).toEqual([1, 15])
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    })
+
+    test('parses stepped ranges and start/step', () => {
+      expect([...parseCron('0-30/10 * * * *').minutes]).toEqual([0, 10, 20, 30])
+      expect([...parseCron('45/5 * * * *').minutes]).toEqual([45, 50, 55])
+    })
+
+    test('parses month and day names', () => {
+      const cron = parseCron('0 0 * JAN,jul mon-fri')
+
+      expect([...cron.months]).toEqual([1, 7])
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+    })
+
+    test('treats 7 as Sunday', () => {
+      expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0])
+    })
+
+    test('normalizes whitespace', () => {
+      expect(parseCron('  0   *  * * * ').minutes.has(0)).toBe(true)
+    })
+
+    test('rejects wrong field count', () => {
+      expect(() => parseCron('0 * * *')).toThrow('expected 5 fields')
+    })
+
+    test('rejects out of range values', () => {
+      expect(() => parseCron('60 * * * *')).toThrow('minute 60 out of range 0-59')
+      expect(() => parseCron('0 0 0 * *')).toThrow('day of month 0 out of range')
+    })
+
+    test('rejects malformed fields', () => {
+      expect(() => parseCron('a * * * *')).toThrow('bad minute value')
+      expect(() => parseCron('*/0 * * * *')).toThrow('bad minute step')
+      expect(() => parseCron('10-5 * * * *')).toThrow('bad minute range')
+      expect(() => parseCron('0 * * * xyz')).toThrow('bad day of week value')
+    })
+  })
+
+  describe('matchesCron', () => {
+    test('matches times in the expression', () => {
+      expect(matchesCron('0 9 * * 1-5', new Date(2025, 0, 6, 9, 0))).toBe(true) // Monday
+      expect(matchesCron('0 9 * * 1-5', new Date(2025, 0, 5, 9, 0))).toBe(false) // Sunday
+      expect(matchesCron('0 9 * * 1-5', new Date(2025, 0, 6, 9, 1))).toBe(false)
+    })
+
+    test('matches either day field when both are restricted', () => {
+      // 1st of the month or any Friday
+      const cron = '0 0 1 * 5'
+      expect(matchesCron(cron, new Date(2025, 1, 1, 0, 0))).toBe(true) // Saturday the 1st
+      expect(matchesCron(cron, new Date(2025, 0, 3, 0, 0))).toBe(true) // Friday the 3rd
+      expect(matchesCron(cron, new Date(2025, 0, 4, 0, 0))).toBe(false)
+    })
+  })
+
+  describe('nextRun', () => {
+    test('returns the next matching minute', () => {
+      const next = nextRun('* * * * *', new Date(2025, 0, 1, 10, 30, 15))
+
+      expect(next).toEqual(new Date(2025, 0, 1, 10, 31))
+    })
+
+    test('is strictly after from', () => {
+      const next = nextRun('0 * * * *', new Date(2025, 0, 1, 10, 0))
+
+      expect(next).toEqual(new Date(2025, 0, 1, 11, 0))
+    })
+
+    test('finds hourly, daily and weekly runs', () => {
+      const from = new Date(2025, 0, 1, 10, 30) // Wednesday
+
+      expect(nextRun('0 * * * *', from)).toEqual(new Date(2025, 0, 1, 11, 0))
+      expect(nextRun('0 0 * * *', from)).toEqual(new Date(2025, 0, 2, 0, 0))
+      expect(nextRun('0 0 * * 0', from)).toEqual(new Date(2025, 0, 5, 0, 0))
+    })
+
+    test('skips weekends', () => {
+      const next = nextRun('0 9 * * 1-5', new Date(2025, 0, 3, 17, 0)) // Friday
+
+      expect(next).toEqual(new Date(2025, 0, 6, 9, 0))
+    })
+
+    test('rolls over months and years', () => {
+      expect(nextRun('0 0 1 * *', new Date(2025, 0, 15))).toEqual(new Date(2025, 1, 1))
+      expect(nextRun('0 0 1 1 *', new Date(2025, 5, 1))).toEqual(new Date(2026, 0, 1))
+    })
+
+    test('finds leap days', () => {
+      expect(nextRun('0 0 29 2 *', new Date(2025, 0, 1))).toEqual(new Date(2028, 1, 29))
+    })
+
+    test('throws for expressions that never run', () => {
+      expect(() => nextRun('0 0 30 2 *', new Date(2025, 0, 1))).toThrow('has no run time')
+    })
+
+    test('accepts a parsed expression', () => {
+      const cron = parseCron('*/15 * * * *')
+
+      expect(nextRun(cron, new Date(2025, 0, 1, 10, 7))).toEqual(new Date(2025, 0, 1, 10, 15))
+    })
+  })
+
+  describe('runsBetween', () => {
+    test('returns fire times after start up to and including end', () => {
+      const runs = runsBetween('0 0 * * *', new Date(2025, 0, 1, 0, 0), new Date(2025, 0, 4, 0, 0))
+
+      expect(runs).toEqual([new Date(2025, 0, 2), new Date(2025, 0, 3), new Date(2025, 0, 4)])
+    })
+
+    test('returns empty when nothing fires in the window', () => {
+      expect(runsBetween('0 0 * * *', new Date(2025, 0, 1, 1, 0), new Date(2025, 0, 1, 23, 0))).toEqual([])
+    })
+  })
+
+  describe('time zones', () => {
+    // America/Chicago: DST starts 2025-03-09 02:00 CST, ends 2025-11-02 02:00 CDT
+    const TZ = 'America/Chicago'
+
+    test('evaluates expressions in the time zone', () => {
+      expect(nextRun('0 9 * * *', new Date('2025-01-10T00:00:00Z'), TZ)).toEqual(new Date('2025-01-10T15:00:00Z'))
+      expect(nextRun('0 9 * * *', new Date('2025-07-10T00:00:00Z'), TZ)).toEqual(new Date('2025-07-10T14:00:00Z'))
+    })
+
+    test('keeps wall time across DST start', () => {
+      const runs = runsBetween('0 9 * * *', new Date('2025-03-07T00:00:00Z'), new Date('2025-03-11T00:00:00Z'), TZ)
+
+      expect(runs.map((r) => r.toISOString())).toEqual([
+        '2025-03-07T15:00:00.000Z',
+        '2025-03-08T15:00:00.000Z',
+        '2025-03-09T14:00:00.000Z',
+        '2025-03-10T14:00:00.000Z',
+      ])
+    })
+
+    test('runs times skipped by spring forward after the gap', () => {
+      const runs = runsBetween('30 2 * * *', new Date('2025-03-08T12:00:00Z'), new Date('2025-03-10T12:00:00Z'), TZ)
+
+      // 03:30 CDT on Mar 9 (02:30 does not exist), 02:30 CDT on Mar 10
+      expect(runs.map((r) => r.toISOString())).toEqual([
+        '2025-03-09T08:30:00.000Z',
+        '2025-03-10T07:30:00.000Z',
+      ])
+    })
+
+    test('does not run twice across spring forward', () => {
+      const runs = runsBetween('*/30 * * * *', new Date('2025-03-09T06:00:00Z'), new Date('2025-03-09T09:00:00Z'), TZ)
+
+      expect(runs.map((r) => r.toISOString())).toEqual([
+        '2025-03-09T06:30:00.000Z',
+        '2025-03-09T07:00:00.000Z',
+        '2025-03-09T07:30:00.000Z',
+        '2025-03-09T08:00:00.000Z',
+        '2025-03-09T08:30:00.000Z',
+        '2025-03-09T09:00:00.000Z',
+      ])
+    })
+
+    test('runs repeated wall times once on fall back', () => {
+      const runs = runsBetween('30 1 * * *', new Date('2025-11-01T12:00:00Z'), new Date('2025-11-03T12:00:00Z'), TZ)
+
+      // 01:30 CDT on Nov 2 only (not again at 01:30 CST), then 01:30 CST on Nov 3
+      expect(runs.map((r) => r.toISOString())).toEqual([
+        '2025-11-02T06:30:00.000Z',
+        '2025-11-03T07:30:00.000Z',
+      ])
+    })
+
+    test('hourly expressions keep running through the repeated hour', () => {
+      const runs = runsBetween('30 * * * *', new Date('2025-11-02T05:00:00Z'), new Date('2025-11-02T09:00:00Z'), TZ)
+
+      expect(runs.map((r) => r.toISOString())).toEqual([
+        '2025-11-02T05:30:00.000Z',
+        '2025-11-02T06:30:00.000Z',
+        '2025-11-02T07:30:00.000Z',
+        '2025-11-02T08:30:00.000Z',
+      ])
+    })
+
+    test('matchesCron reads wall time in the time zone', () => {
+      expect(matchesCron('0 9 * * 1', new Date('2025-03-10T14:00:00Z'), TZ)).toBe(true)
+      expect(matchesCron('0 9 * * 1', new Date('2025-03-10T14:00:00Z'), 'Europe/Berlin')).toBe(false)
+    })
+
+    test('toZonedTime gives wall time and offset', () => {
+      expect(toZonedTime(new Date('2025-03-10T14:00:00Z'), TZ)).toEqual({
+        timezone: TZ,
+        year: 2025,
+        month: 3,
+        day: 10,
+        hour: 9,
+        minute: 0,
+        second: 0,
+        dayOfWeek: 1,
+        offset: '-05:00',
+        iso: '2025-03-10T09:00:00-05:00',
+      })
+      expect(toZonedTime(new Date('2025-07-01T12:00:00Z'), 'Asia/Kolkata').iso).toBe('2025-07-01T17:30:00+05:30')
+    })
+
+    test('validateTimeZone rejects unknown zones', () => {
+      expect(() => validateTimeZone('Europe/Berlin')).not.toThrow()
+      expect(() => validateTimeZone('Mars/Olympus')).toThrow('Invalid time zone "Mars/Olympus"')
+    })
+  })
+})
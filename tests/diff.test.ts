@@ -75,6 +75,60 @@ describe('diff', () => {
       expect(result.updated[0].after.priority).toBe(0)
     })
 
+    test('reports field-level changes for updated issues', async () => {
+      const before = '{"id":"bw-1","title":"Test","status":"open","priority":2,"issue_type":"task","assignee":"alice","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}\n'
+      const after = '{"id":"bw-1","title":"Test","status":"open","priority":0,"issue_type":"task","assignee":"bob","labels":["urgent"],"created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-02T10:00:00Z"}\n'
+
+      const result = await diff({ before, after })
+
+      expect(result.updated[0]!.changes).toEqual({
+        priority: { from: 2, to: 0 },
+        assignee: { from: 'alice', to: 'bob' },
+        labels: { from: undefined, to: ['urgent'] },
+      })
+    })
+
+    test('reports close reason and parent changes', async () => {
+      const before = '{"id":"bw-1","title":"Test","status":"closed","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}\n'
+      const after = '{"id":"bw-1","title":"Test","status":"closed","priority":2,"issue_type":"task","close_reason":"duplicate","dependencies":[{"issue_id":"bw-1","depends_on_id":"bw-9","type":"parent-child"}],"created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-02T10:00:00Z"}\n'
+
+      const result = await diff({ before, after })
+
+      expect(result.updated[0]!.changes).toEqual({
+        dependsOn: { from: [], to: ['bw-9'] },
+        dependencies: { from: [], to: [{ id: 'bw-9', type: 'parent-child' }] },
+        parent: { from: undefined, to: 'bw-9' },
+        closeReason: { from: undefined, to: 'duplicate' },
+      })
+    })
+
+    test('reports changed dependency types', async () => {
+      const issue = (type: string) =>
+        JSON.stringify({ id: 'bw-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', dependencies: [{ issue_id: 'bw-1', depends_on_id: 'bw-2', type }], created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n'
+
+      const result = await diff({ before: issue('related'), after: issue('blocks') })
+
+      expect(result.updated[0]!.changes).toEqual({
+        dependencies: { from: [{ id: 'bw-2', type: 'related' }], to: [{ id: 'bw-2', type: 'blocks' }] },
+      })
+    })
+
+    test('reports comment changes', async () => {
+      const issue = (comments: unknown[]) =>
+        JSON.stringify({ id: 'bw-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', comments, created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n'
+      const first = { id: 1, issue_id: 'bw-1', author: 'alice', text: 'Looks good', created_at: '2025-01-01T11:00:00Z' }
+      const second = { id: 2, issue_id: 'bw-1', author: 'bob', text: 'Shipped', created_at: '2025-01-01T12:00:00Z' }
+
+      const unchanged = await diff({ before: issue([first]), after: issue([first]) })
+      const added = await diff({ before: issue([first]), after: issue([first, second]) })
+
+      expect(unchanged.updated).toEqual([])
+      expect(added.updated[0]!.changes.comments!.to).toEqual([
+        { id: 1, author: 'alice', text: 'Looks good', created: new Date('2025-01-01T11:00:00Z') },
+        { id: 2, author: 'bob', text: 'Shipped', created: new Date('2025-01-01T12:00:00Z') },
+      ])
+    })
+
     test('detects updated issue (title change)', async () => {
       const before = '{"id":"bw-1","title":"Old Title","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}\n'
       const after = '{"id":"bw-1","title":"New Title","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-02T10:00:00Z"}\n'
@@ -110,6 +164,19 @@ describe('diff', () => {
       expect(result.closed[0].id).toBe('bw-2')
     })
 
+    test('detects deleted issues', async () => {
+      const before = [
+        '{"id":"bw-1","title":"Kept","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}',
+        '{"id":"bw-2","title":"Removed","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}',
+      ].join('\n') + '\n'
+      const after = '{"id":"bw-1","title":"Kept","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}\n'
+
+      const result = await diff({ before, after })
+
+      expect(result.deleted.map(i => i.id)).toEqual(['bw-2'])
+      expect(result.updated).toEqual([])
+    })
+
     test('handles empty before (initial commit)', async () => {
       const before = ''
       const after = '{"id":"bw-1","title":"First","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T10:00:00Z","updated_at":"2025-01-01T10:00:00Z"}\n'
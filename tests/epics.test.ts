@@ -16,12 +16,12 @@ describe('epics API', () => {
     const issues = [
       // Epic with 3 children
       { id: 'epic-1', title: 'Main Epic', status: 'open', priority: 1, issue_type: 'epic', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' },
-      { id: 'task-1', title: 'Task 1', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-02T10:00:00Z', closed_at: '2025-01-02T10:00:00Z', dependencies: [{ issue_id: 'task-1', depends_on_id: 'epic-1', type: 'blocks' }] },
-      { id: 'task-2', title: 'Task 2', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-2', depends_on_id: 'epic-1', type: 'blocks' }] },
-      { id: 'task-3', title: 'Task 3', status: 'in_progress', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-3', depends_on_id: 'epic-1', type: 'blocks' }] },
+      { id: 'task-1', title: 'Task 1', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-02T10:00:00Z', closed_at: '2025-01-02T10:00:00Z', dependencies: [{ issue_id: 'task-1', depends_on_id: 'epic-1', type: 'parent-child' }] },
+      { id: 'task-2', title: 'Task 2', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-2', depends_on_id: 'epic-1', type: 'parent-child' }] },
+      { id: 'task-3', title: 'Task 3', status: 'in_progress', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-3', depends_on_id: 'epic-1', type: 'parent-child' }] },
       // Completed epic with all children closed
       { id: 'epic-2', title: 'Completed Epic', status: 'closed', priority: 1, issue_type: 'epic', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-03T10:00:00Z', closed_at: '2025-01-03T10:00:00Z' },
-      { id: 'task-4', title: 'Task 4', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-03T10:00:00Z', closed_at: '2025-01-03T10:00:00Z', dependencies: [{ issue_id: 'task-4', depends_on_id: 'epic-2', type: 'blocks' }] },
+      { id: 'task-4', title: 'Task 4', status: 'closed', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-03T10:00:00Z', closed_at: '2025-01-03T10:00:00Z', dependencies: [{ issue_id: 'task-4', depends_on_id: 'epic-2', type: 'parent-child' }] },
       // Standalone task (no parent)
       { id: 'task-5', title: 'Standalone Task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' },
     ]
@@ -128,7 +128,7 @@ describe('epics API', () => {
       // Create epic with all open children
       const issues = [
         { id: 'epic-new', title: 'New Epic', status: 'open', priority: 1, issue_type: 'epic', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' },
-        { id: 'task-new', title: 'New Task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-new', depends_on_id: 'epic-new', type: 'blocks' }] },
+        { id: 'task-new', title: 'New Task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'task-new', depends_on_id: 'epic-new', type: 'parent-child' }] },
       ]
       const currentContent = await Bun.file(join(BEADS_DIR, 'issues.jsonl')).text()
       await writeFile(
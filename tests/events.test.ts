@@ -0,0 +1,184 @@
+import { describe, expect, test } from 'bun:test'
+import { issueEventNames, deriveGraphEvents, deriveEpicEvents, derivedEventArgs } from '../src/events'
+import type { Issue } from '../src/types'
+
+function makeIssue(id: string, overrides: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    created: new Date('2025-01-01T10:00:00Z'),
+    updated: new Date('2025-01-01T10:00:00Z'),
+    dependsOn: [],
+    blocks: [],
+    ...overrides,
+  }
+}
+
+function snapshot(...issues: Issue[]): Map<string, Issue> {
+  return new Map(issues.map(i => [i.id, i]))
+}
+
+describe('events', () => {
+  describe('issueEventNames', () => {
+    test('maps watcher event type to issue event', () => {
+      const names = issueEventNames({ type: 'closed', issue: makeIssue('a', { status: 'closed' }) })
+
+      expect(names).toEqual(['issue.closed'])
+    })
+
+    test('adds issue.started when work begins', () => {
+      const names = issueEventNames({
+        type: 'updated',
+        issue: makeIssue('a', { status: 'in_progress' }),
+        previousIssue: makeIssue('a'),
+      })
+
+      expect(names).toEqual(['issue.updated', 'issue.started'])
+    })
+  })
+
+  describe('deriveGraphEvents', () => {
+    test('emits ready and unblocked when last blocker closes', () => {
+      const before = snapshot(
+        makeIssue('a', { dependsOn: ['b', 'c'] }),
+        makeIssue('b'),
+        makeIssue('c', { status: 'closed' }),
+      )
+      const after = snapshot(
+        makeIssue('a', { dependsOn: ['b', 'c'] }),
+        makeIssue('b', { status: 'closed' }),
+        makeIssue('c', { status: 'closed' }),
+      )
+
+      const events = deriveGraphEvents(before, after)
+
+      expect(events.map(e => `${e.name}:${e.issue.id}`)).toEqual(['issue.unblocked:a', 'issue.ready:a'])
+    })
+
+    test('does not emit ready while another blocker is open', () => {
+      const before = snapshot(makeIssue('a', { dependsOn: ['b', 'c'] }), makeIssue('b'), makeIssue('c'))
+      const after = snapshot(makeIssue('a', { dependsOn: ['b', 'c'] }), makeIssue('b', { status: 'closed' }), makeIssue('c'))
+
+      expect(deriveGraphEvents(before, after)).toEqual([])
+    })
+
+    test('emits blocked and dep.added for a new open dependency', () => {
+      const before = snapshot(makeIssue('a'), makeIssue('b'))
+      const after = snapshot(makeIssue('a', { dependsOn: ['b'] }), makeIssue('b'))
+
+      const events = deriveGraphEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['dep.added', 'issue.blocked'])
+      expect(derivedEventArgs(events[1]!).map(i => (i as Issue).id)).toEqual(['a', 'b'])
+    })
+
+    test('emits blocked when a blocker is reopened', () => {
+      const before = snapshot(makeIssue('a', { dependsOn: ['b'] }), makeIssue('b', { status: 'closed' }))
+      const after = snapshot(makeIssue('a', { dependsOn: ['b'] }), makeIssue('b'))
+
+      const events = deriveGraphEvents(before, after)
+
+      expect(events.map(e => `${e.name}:${e.issue.id}`)).toEqual(['issue.blocked:a', 'issue.ready:b'])
+    })
+
+    test('emits dep.removed and unblocked when an open dependency is removed', () => {
+      const before = snapshot(makeIssue('a', { dependsOn: ['b'] }), makeIssue('b'))
+      const after = snapshot(makeIssue('a'), makeIssue('b'))
+
+      const events = deriveGraphEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['dep.removed', 'issue.unblocked', 'issue.ready'])
+    })
+
+    test('emits ready for new unblocked issues', () => {
+      const events = deriveGraphEvents(snapshot(), snapshot(makeIssue('a')))
+
+      expect(events.map(e => e.name)).toEqual(['issue.ready'])
+    })
+
+    test('only blocks edges block', () => {
+      const edges = (...types: Array<'related' | 'discovered-from' | 'parent-child'>) =>
+        types.map(type => ({ id: 'b', type }))
+      const before = snapshot(makeIssue('a'), makeIssue('b'))
+      const after = snapshot(
+        makeIssue('a', { dependsOn: ['b'], dependencies: edges('related', 'discovered-from') }),
+        makeIssue('b'),
+      )
+
+      const events = deriveGraphEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['dep.added'])
+    })
+
+    test('emits blocked for typed blocks edges', () => {
+      const before = snapshot(makeIssue('a'), makeIssue('b'), makeIssue('c'))
+      const after = snapshot(
+        makeIssue('a', { dependsOn: ['b', 'c'], dependencies: [{ id: 'b', type: 'related' }, { id: 'c', type: 'blocks' }] }),
+        makeIssue('b'),
+        makeIssue('c'),
+      )
+
+      const events = deriveGraphEvents(before, after).filter(e => e.name === 'issue.blocked')
+
+      expect(events.map(e => (e as { blocker: Issue }).blocker.id)).toEqual(['c'])
+    })
+
+    test('ignores closed issues', () => {
+      const before = snapshot(makeIssue('a', { dependsOn: ['b'] }), makeIssue('b'))
+      const after = snapshot(makeIssue('a', { dependsOn: ['b'], status: 'closed' }), makeIssue('b'))
+
+      expect(deriveGraphEvents(before, after)).toEqual([])
+    })
+  })
+
+  describe('deriveEpicEvents', () => {
+    const epic = makeIssue('epic', { type: 'epic' })
+
+    test('emits progress when a child closes', () => {
+      const before = snapshot(epic, makeIssue('a', { parent: 'epic' }), makeIssue('b', { parent: 'epic' }))
+      const after = snapshot(epic, makeIssue('a', { parent: 'epic', status: 'closed' }), makeIssue('b', { parent: 'epic' }))
+
+      const events = deriveEpicEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['epic.progress'])
+      expect(derivedEventArgs(events[0]!)[1]).toEqual({ total: 2, closed: 1, percentage: 50 })
+    })
+
+    test('emits completed once when the last child closes', () => {
+      const before = snapshot(epic, makeIssue('a', { parent: 'epic', status: 'closed' }), makeIssue('b', { parent: 'epic' }))
+      const after = snapshot(epic, makeIssue('a', { parent: 'epic', status: 'closed' }), makeIssue('b', { parent: 'epic', status: 'closed' }))
+
+      const events = deriveEpicEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['epic.progress', 'epic.completed'])
+      expect(deriveEpicEvents(after, after)).toEqual([])
+    })
+
+    test('emits progress when a child is reopened', () => {
+      const before = snapshot(epic, makeIssue('a', { parent: 'epic', status: 'closed' }))
+      const after = snapshot(epic, makeIssue('a', { parent: 'epic' }))
+
+      const events = deriveEpicEvents(before, after)
+
+      expect(events.map(e => e.name)).toEqual(['epic.progress'])
+    })
+
+    test('counts only issues with a parent-child edge to the epic', () => {
+      const related = { dependsOn: ['epic'], dependencies: [{ id: 'epic', type: 'related' as const }] }
+      const before = snapshot(epic, makeIssue('a', { parent: 'epic' }), makeIssue('b', related))
+      const after = snapshot(epic, makeIssue('a', { parent: 'epic' }), makeIssue('b', { ...related, status: 'closed' }))
+
+      expect(deriveEpicEvents(before, after)).toEqual([])
+    })
+
+    test('ignores changes that do not affect progress', () => {
+      const before = snapshot(epic, makeIssue('a', { parent: 'epic' }))
+      const after = snapshot(epic, makeIssue('a', { parent: 'epic', status: 'in_progress' }))
+
+      expect(deriveEpicEvents(before, after)).toEqual([])
+    })
+  })
+})
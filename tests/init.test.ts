@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
-import { mkdir, rm, readFile, access } from 'fs/promises'
+import { mkdir, rm, readFile, writeFile, access } from 'fs/promises'
 import { join } from 'path'
 import { initWorkflows, type InitOptions, type InitResult } from '../src/init'
 
@@ -93,6 +93,38 @@ describe('init', () => {
       const globalDts = await readFile(join(BEADS_DIR, 'global.d.ts'), 'utf-8')
       expect(globalDts).toContain('const epics:')
     })
+
+    test('global.d.ts declares every script global', async () => {
+      await initWorkflows(BEADS_DIR)
+
+      const globalDts = await readFile(join(BEADS_DIR, 'global.d.ts'), 'utf-8')
+      for (const name of ['changes', 'blocker', 'dependency', 'log', 'signal', 'event', 'cron', 'triggeredAt', 'missedRuns']) {
+        expect(globalDts).toContain(`const ${name}:`)
+      }
+    })
+  })
+
+  describe('gitignore', () => {
+    test('ignores the checkpoint and run logs', async () => {
+      const result = await initWorkflows(BEADS_DIR)
+
+      expect(result.files).toContain('.gitignore')
+      const gitignore = (await readFile(join(BEADS_DIR, '.gitignore'), 'utf-8')).split('\n')
+      expect(gitignore).toContain('issues.checkpoint.jsonl')
+      expect(gitignore).toContain('logs/')
+    })
+
+    test('keeps existing entries and adds its own once', async () => {
+      await writeFile(join(BEADS_DIR, '.gitignore'), '*.db\n')
+
+      await initWorkflows(BEADS_DIR)
+      const result = await initWorkflows(BEADS_DIR)
+
+      expect(result.files).not.toContain('.gitignore')
+      const gitignore = await readFile(join(BEADS_DIR, '.gitignore'), 'utf-8')
+      expect(gitignore.startsWith('*.db\n')).toBe(true)
+      expect(gitignore.split('\n').filter((line) => line === 'issues.checkpoint.jsonl').length).toBe(1)
+    })
   })
 
   describe('idempotency', () => {
@@ -2,6 +2,7 @@ import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm } from 'fs/promises'
 import { join } from 'path'
 import { createIssuesApi, type IssuesApi } from '../src/issues'
+import { createMutationPlan } from '../src/plan'
 import type { Issue } from '../src/types'
 
 const TEST_DIR = '/tmp/beads-issues-test'
@@ -115,6 +116,16 @@ describe('issues API', () => {
       const blockedIssue = ready.find(i => i.id === 'proj-4')
       expect(blockedIssue).toBeUndefined()
     })
+
+    test('is not held back by related or discovered-from edges', async () => {
+      const linked = { id: 'proj-6', title: 'Linked task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies: [{ issue_id: 'proj-6', depends_on_id: 'proj-1', type: 'related' }, { issue_id: 'proj-6', depends_on_id: 'proj-2', type: 'discovered-from' }] }
+      const currentContent = await Bun.file(join(BEADS_DIR, 'issues.jsonl')).text()
+      await writeFile(join(BEADS_DIR, 'issues.jsonl'), currentContent + '\n' + JSON.stringify(linked))
+      await api.reload()
+
+      expect((await api.ready()).some(i => i.id === 'proj-6')).toBe(true)
+      expect((await api.blocked()).some(i => i.id === 'proj-6')).toBe(false)
+    })
   })
 
   describe('blocked', () => {
@@ -157,4 +168,39 @@ describe('issues API', () => {
       expect(await api.count()).toBe(6)
     })
   })
+
+  describe('dry run', () => {
+    test('plans mutations instead of running bd and reads them back', async () => {
+      const plan = createMutationPlan()
+      const dryRun = createIssuesApi(BEADS_DIR, { plan })
+
+      // Closing the blocker makes proj-4 ready
+      expect(await dryRun.close('proj-2', 'fixed')).toBe(true)
+      const updated = await dryRun.update('proj-4', { assignee: 'alice' })
+      const created = await dryRun.create({ title: 'Follow-up', type: 'task', priority: 1 })
+
+      expect(updated).toMatchObject({ id: 'proj-4', assignee: 'alice' })
+      expect(created).toMatchObject({ title: 'Follow-up', status: 'open' })
+      expect((await dryRun.ready()).map((i) => i.id)).toContain('proj-4')
+      expect(await dryRun.count()).toBe(6)
+
+      expect(plan.list()).toEqual([
+        { op: 'close', id: 'proj-2', reason: 'fixed' },
+        { op: 'update', id: 'proj-4', options: { assignee: 'alice' } },
+        { op: 'create', id: created!.id, options: { title: 'Follow-up', type: 'task', priority: 1 } },
+      ])
+
+      // The file is untouched
+      expect((await api.get('proj-2'))!.status).toBe('in_progress')
+    })
+
+    test('plans nothing for unknown issues', async () => {
+      const plan = createMutationPlan()
+      const dryRun = createIssuesApi(BEADS_DIR, { plan })
+
+      expect(await dryRun.close('missing-1')).toBe(false)
+      expect(await dryRun.update('missing-1', { priority: 0 })).toBeNull()
+      expect(plan.list()).toEqual([])
+    })
+  })
 })
@@ -0,0 +1,101 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import { mkdir, rm } from 'fs/promises'
+import { captureLogs, formatLogs, writeRunLog, readRunLog, MAX_LOG_BYTES } from '../src/logs'
+
+const TEST_DIR = '/tmp/beads-logs-test'
+
+const quiet = { echo: false }
+
+describe('logs', () => {
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true })
+    await mkdir(TEST_DIR, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true })
+  })
+
+  describe('captureLogs', () => {
+    test('captures console output and logger calls with levels', async () => {
+      const { result, logs } = await captureLogs(async (log) => {
+        console.log('count', 3)
+        log.warn('careful')
+        console.error(new Error('boom').message)
+        return 'done'
+      }, quiet)
+
+      expect(result).toBe('done')
+      expect(logs.map(({ level, message }) => [level, message])).toEqual([
+        ['info', 'count 3'],
+        ['warn', 'careful'],
+        ['error', 'boom'],
+      ])
+    })
+
+    test('captures writes to process.stdout and process.stderr', async () => {
+      const { logs } = await captureLogs(async () => {
+        process.stdout.write('progress 50%\n')
+        process.stderr.write(Buffer.from('failed\n'))
+      }, quiet)
+
+      expect(logs.map(({ level, message }) => [level, message])).toEqual([
+        ['info', 'progress 50%'],
+        ['error', 'failed'],
+      ])
+    })
+
+    test('keeps concurrent runs apart', async () => {
+      const run = (name: string) =>
+        captureLogs(async (log) => {
+          for (let i = 0; i < 3; i++) {
+            log.info(name, i)
+            await new Promise((r) => setTimeout(r, 1))
+          }
+        }, quiet)
+
+      const [a, b] = await Promise.all([run('a'), run('b')])
+
+      expect(a.logs.map((e) => e.message)).toEqual(['a 0', 'a 1', 'a 2'])
+      expect(b.logs.map((e) => e.message)).toEqual(['b 0', 'b 1', 'b 2'])
+    })
+
+    test('streams entries as they are logged', async () => {
+      const seen: string[] = []
+      await captureLogs(async (log) => log.info('hello'), { ...quiet, onEntry: (entry) => seen.push(entry.message) })
+
+      expect(seen).toEqual(['hello'])
+    })
+
+    test('truncates output past the size limit', async () => {
+      const chunk = 'x'.repeat(MAX_LOG_BYTES / 4)
+      const { logs } = await captureLogs(async (log) => {
+        for (let i = 0; i < 10; i++) log.info(chunk)
+      }, quiet)
+
+      expect(logs.length).toBe(5)
+      expect(logs[4]).toMatchObject({ level: 'warn', message: `[log truncated after ${MAX_LOG_BYTES} bytes]` })
+    })
+  })
+
+  describe('run log files', () => {
+    test('writes and reads a run log', async () => {
+      const entries = [
+        { time: '2025-01-01T00:00:00.000Z', level: 'info' as const, message: 'started' },
+        { time: '2025-01-01T00:00:01.000Z', level: 'error' as const, message: 'failed' },
+      ]
+
+      const path = await writeRunLog(TEST_DIR, 'run-1', entries)
+
+      expect(path).toBe('logs/run-1.log')
+      expect(await readRunLog(TEST_DIR, 'run-1')).toBe(formatLogs(entries))
+      expect(formatLogs(entries)).toBe(
+        '2025-01-01T00:00:00.000Z INFO  started\n2025-01-01T00:00:01.000Z ERROR failed\n'
+      )
+    })
+
+    test('returns null for runs without a log', async () => {
+      expect(await readRunLog(TEST_DIR, 'missing')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { createMutationPlan, formatMutation, type PlannedMutation } from '../src/plan'
+import type { Issue } from '../src/types'
+
+const issue: Issue = {
+  id: 'bw-1',
+  title: 'Task',
+  status: 'open',
+  type: 'task',
+  priority: 2,
+  created: new Date('2025-01-01T10:00:00Z'),
+  updated: new Date('2025-01-01T10:00:00Z'),
+  dependsOn: [],
+  blocks: [],
+}
+
+describe('plan', () => {
+  test('applies planned mutations in order without touching the input', () => {
+    const plan = createMutationPlan()
+    plan.add({ op: 'update', id: 'bw-1', options: { assignee: 'alice', title: undefined } })
+    plan.add({ op: 'close', id: 'bw-1', reason: 'done' })
+    plan.add({ op: 'create', id: 'dry-run-1', options: { title: 'Follow-up', type: 'bug', priority: 1 } })
+
+    const issues = plan.apply([issue])
+
+    expect(issues[0]).toMatchObject({ id: 'bw-1', title: 'Task', assignee: 'alice', status: 'closed' })
+    expect(issues[0]!.closed).toBeInstanceOf(Date)
+    expect(issues[1]).toMatchObject({ id: 'dry-run-1', title: 'Follow-up', type: 'bug', priority: 1, status: 'open', dependsOn: [] })
+    expect(issue.status).toBe('open')
+    expect(issue.assignee).toBeUndefined()
+  })
+
+  test('continues an existing plan and reports additions', () => {
+    const added: PlannedMutation[] = []
+    const plan = createMutationPlan([{ op: 'close', id: 'bw-1' }], (mutation) => added.push(mutation))
+    plan.add({ op: 'update', id: 'bw-2', options: { priority: 0 } })
+
+    expect(plan.list()).toEqual([
+      { op: 'close', id: 'bw-1' },
+      { op: 'update', id: 'bw-2', options: { priority: 0 } },
+    ])
+    expect(added).toEqual([{ op: 'update', id: 'bw-2', options: { priority: 0 } }])
+  })
+
+  test('hands out distinct placeholder ids', () => {
+    const plan = createMutationPlan()
+
+    expect(plan.nextId()).toMatch(/^dry-run-/)
+    expect(plan.nextId()).not.toBe(plan.nextId())
+  })
+
+  test('formats mutations', () => {
+    expect(formatMutation({ op: 'create', id: 'dry-run-1', options: { title: 'Follow-up', type: 'bug', priority: 1 } })).toBe(
+      'create dry-run-1 "Follow-up" (bug, P1)'
+    )
+    expect(formatMutation({ op: 'update', id: 'bw-1', options: { assignee: 'alice', labels: ['a', 'b'] } })).toBe(
+      'update bw-1 assignee=alice labels=a,b'
+    )
+    expect(formatMutation({ op: 'close', id: 'bw-1', reason: 'duplicate' })).toBe('close bw-1: duplicate')
+    expect(formatMutation({ op: 'close', id: 'bw-1' })).toBe('close bw-1')
+  })
+})
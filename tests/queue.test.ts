@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test'
+import { createDispatchQueue } from '../src/queue'
+
+const tick = (ms = 5) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+describe('queue', () => {
+  test('limits how many tasks run at once', async () => {
+    const queue = createDispatchQueue({ concurrency: 2 })
+    let active = 0
+    let peak = 0
+
+    for (let i = 0; i < 6; i++) {
+      await queue.push(`issue-${i}`, async () => {
+        active++
+        peak = Math.max(peak, active)
+        await tick()
+        active--
+      })
+    }
+    await queue.drain()
+
+    expect(peak).toBe(2)
+  })
+
+  test('runs tasks with the same key in order, one at a time', async () => {
+    const queue = createDispatchQueue({ concurrency: 4 })
+    const log: string[] = []
+
+    const task = (key: string, event: string, ms: number) =>
+      queue.push(key, async () => {
+        log.push(`start ${key}:${event}`)
+        await tick(ms)
+        log.push(`end ${key}:${event}`)
+      })
+
+    await task('a', 'created', 20)
+    await task('a', 'closed', 1)
+    await task('b', 'created', 1)
+    await queue.drain()
+
+    // b runs alongside a, but a's events never overlap or reorder
+    expect(log).toEqual([
+      'start a:created',
+      'start b:created',
+      'end b:created',
+      'end a:created',
+      'start a:closed',
+      'end a:closed',
+    ])
+  })
+
+  test('keeps later keys moving while one key is busy', async () => {
+    const queue = createDispatchQueue({ concurrency: 2 })
+    const done: string[] = []
+
+    await queue.push('slow', async () => { await tick(30); done.push('slow 1') })
+    await queue.push('slow', async () => { done.push('slow 2') })
+    await queue.push('fast', async () => { done.push('fast') })
+    await queue.drain()
+
+    expect(done).toEqual(['fast', 'slow 1', 'slow 2'])
+  })
+
+  test('push waits for room when the queue is full', async () => {
+    const queue = createDispatchQueue({ concurrency: 1, maxQueued: 1 })
+    let release!: () => void
+    const blocked = new Promise<void>((resolve) => { release = resolve })
+
+    await queue.push('a', () => blocked)
+    await queue.push('b', async () => {})
+
+    let queued = false
+    const pending = queue.push('c', async () => {}).then(() => { queued = true })
+    await tick()
+
+    expect(queue.queued()).toBe(1)
+    expect(queued).toBe(false)
+
+    release()
+    await pending
+    await queue.drain()
+
+    expect(queued).toBe(true)
+    expect(queue.running()).toBe(0)
+  })
+
+  test('drain resolves once running tasks finish', async () => {
+    const queue = createDispatchQueue()
+    let finished = false
+
+    expect(await queue.drain()).toBeUndefined()
+
+    await queue.push('a', async () => { await tick(10); finished = true })
+    await queue.drain()
+
+    expect(finished).toBe(true)
+  })
+
+  test('keeps going after a task fails', async () => {
+    const queue = createDispatchQueue({ concurrency: 1 })
+    let ran = false
+
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      await queue.push('a', async () => { throw new Error('boom') })
+      await queue.push('a', async () => { ran = true })
+      await queue.drain()
+    } finally {
+      console.error = originalError
+    }
+
+    expect(ran).toBe(true)
+  })
+})
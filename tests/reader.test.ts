@@ -4,7 +4,9 @@ import { join } from 'path'
 import {
   readIssuesFromJsonl,
   parseJsonlLine,
+  parseIssueLine,
   findBeadsDir,
+  IssuesParseError,
   type JsonlIssue,
 } from '../src/reader'
 import type { Issue } from '../src/types'
@@ -64,6 +66,7 @@ describe('reader', () => {
 
       expect(issue!.status).toBe('closed')
       expect(issue!.closed).toBeInstanceOf(Date)
+      expect(issue!.closeReason).toBe('Fixed the bug')
     })
 
     test('parses issue with dependencies', () => {
@@ -86,6 +89,62 @@ describe('reader', () => {
       expect(issue!.dependsOn).toEqual(['proj-100', 'proj-200'])
     })
 
+    test('keeps dependency types and derives the parent', () => {
+      const line = JSON.stringify({
+        id: 'proj-789',
+        title: 'Child issue',
+        status: 'open',
+        priority: 2,
+        issue_type: 'task',
+        created_at: '2025-01-01T10:00:00Z',
+        updated_at: '2025-01-01T10:00:00Z',
+        dependencies: [
+          { issue_id: 'proj-789', depends_on_id: 'proj-1', type: 'parent-child' },
+          { issue_id: 'proj-789', depends_on_id: 'proj-100', type: 'blocks' },
+          { issue_id: 'proj-789', depends_on_id: 'proj-200', type: 'discovered-from' },
+          { issue_id: 'proj-789', depends_on_id: 'proj-300' },
+          { issue_id: 'proj-789', depends_on_id: 'proj-400', type: 'from-the-future' },
+        ],
+      })
+
+      const issue = parseJsonlLine(line)
+
+      expect(issue!.dependencies).toEqual([
+        { id: 'proj-1', type: 'parent-child' },
+        { id: 'proj-100', type: 'blocks' },
+        { id: 'proj-200', type: 'discovered-from' },
+        { id: 'proj-300', type: 'blocks' },
+      ])
+      expect(issue!.dependsOn).toEqual(['proj-1', 'proj-100', 'proj-200', 'proj-300', 'proj-400'])
+      expect(issue!.parent).toBe('proj-1')
+    })
+
+    test('keeps external_ref and unknown fields', () => {
+      const line = JSON.stringify({
+        id: 'proj-1',
+        title: 'Synced issue',
+        status: 'open',
+        priority: 2,
+        issue_type: 'task',
+        created_at: '2025-01-01T10:00:00Z',
+        updated_at: '2025-01-01T10:00:00Z',
+        external_ref: 'gh-42',
+        design: 'Use a queue',
+        estimated_minutes: 30,
+      })
+
+      const issue = parseJsonlLine(line)
+
+      expect(issue!.externalRef).toBe('gh-42')
+      expect(issue!.extra).toEqual({ design: 'Use a queue', estimated_minutes: 30 })
+    })
+
+    test('leaves extra unset without unknown fields', () => {
+      const line = JSON.stringify({ id: 'proj-1', title: 'Plain', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' })
+
+      expect(parseJsonlLine(line)!.extra).toBeUndefined()
+    })
+
     test('handles empty line gracefully', () => {
       expect(parseJsonlLine('')).toBeNull()
       expect(parseJsonlLine('  ')).toBeNull()
@@ -197,6 +256,88 @@ describe('reader', () => {
       const blocked = issues.find(i => i.id === 'proj-2')!
       expect(blocked.dependsOn).toContain('proj-1')
     })
+
+    test('builds children arrays from parent-child dependencies', async () => {
+      const issue = (id: string, dependencies: object[] = []) =>
+        JSON.stringify({ id, title: id, status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', dependencies })
+      const jsonlContent = [
+        issue('proj-1'),
+        issue('proj-2', [{ issue_id: 'proj-2', depends_on_id: 'proj-1', type: 'parent-child' }]),
+        issue('proj-3', [{ issue_id: 'proj-3', depends_on_id: 'proj-1', type: 'parent-child' }]),
+        issue('proj-4', [{ issue_id: 'proj-4', depends_on_id: 'proj-1', type: 'related' }]),
+      ].join('\n')
+
+      await writeFile(join(BEADS_DIR, 'issues.jsonl'), jsonlContent)
+
+      const issues = await readIssuesFromJsonl(BEADS_DIR)
+
+      expect(issues.find(i => i.id === 'proj-1')!.children).toEqual(['proj-2', 'proj-3'])
+      expect(issues.find(i => i.id === 'proj-2')!.children).toBeUndefined()
+      expect(issues.find(i => i.id === 'proj-4')!.parent).toBeUndefined()
+    })
+  })
+
+  describe('diagnostics', () => {
+    const valid = { id: 'proj-1', title: 'Valid', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+
+    test('reports invalid fields as warnings and keeps the issue', () => {
+      const { issue, diagnostics } = parseIssueLine(JSON.stringify({ ...valid, status: 'opne', priority: 9, updated_at: 'yesterday' }), 4)
+
+      expect(issue!.id).toBe('proj-1')
+      expect(diagnostics).toEqual([
+        { line: 4, severity: 'warning', field: 'status', issueId: 'proj-1', message: 'unknown status "opne"' },
+        { line: 4, severity: 'warning', field: 'priority', issueId: 'proj-1', message: 'priority must be 0-4, got 9' },
+        { line: 4, severity: 'warning', field: 'updated_at', issueId: 'proj-1', message: 'invalid timestamp "yesterday"' },
+      ])
+    })
+
+    test('reports skipped lines as errors', () => {
+      expect(parseIssueLine('<<<<<<< HEAD', 2).diagnostics).toEqual([{ line: 2, severity: 'error', message: 'merge conflict marker' }])
+      expect(parseIssueLine('{"id":', 3).diagnostics[0]).toMatchObject({ line: 3, severity: 'error', message: expect.stringContaining('invalid JSON') })
+      expect(parseIssueLine('[1, 2]', 4).diagnostics[0]).toMatchObject({ severity: 'error', message: 'expected a JSON object' })
+      expect(parseIssueLine(JSON.stringify({ ...valid, id: undefined }), 5)).toEqual({
+        issue: null,
+        diagnostics: [{ line: 5, severity: 'error', field: 'id', message: 'missing issue id' }],
+      })
+    })
+
+    test('reports malformed dependencies', () => {
+      const { issue, diagnostics } = parseIssueLine(JSON.stringify({ ...valid, dependencies: [null, { depends_on_id: 'proj-2' }] }), 1)
+
+      expect(issue!.dependsOn).toEqual(['proj-2'])
+      expect(diagnostics).toMatchObject([{ severity: 'warning', field: 'dependencies', message: 'malformed dependency null' }])
+    })
+
+    test('returns no diagnostics for valid and blank lines', () => {
+      expect(parseIssueLine(JSON.stringify(valid), 1).diagnostics).toEqual([])
+      expect(parseIssueLine('   ', 2)).toEqual({ issue: null, diagnostics: [] })
+    })
+
+    test('reads issues with diagnostics by line number', async () => {
+      const jsonlContent = [JSON.stringify(valid), '', '<<<<<<< HEAD', JSON.stringify({ ...valid, id: 'proj-2', issue_type: 'chore' })].join('\n')
+      await writeFile(join(BEADS_DIR, 'issues.jsonl'), jsonlContent)
+
+      const { issues, diagnostics } = await readIssuesFromJsonl(BEADS_DIR, {})
+
+      expect(issues.map(i => i.id)).toEqual(['proj-1', 'proj-2'])
+      expect(diagnostics.map(d => [d.line, d.severity])).toEqual([[3, 'error'], [4, 'warning']])
+    })
+
+    test('throws in strict mode', async () => {
+      await writeFile(join(BEADS_DIR, 'issues.jsonl'), [JSON.stringify(valid), '=======', '{'].join('\n'))
+
+      const error = await readIssuesFromJsonl(BEADS_DIR, { strict: true }).catch(e => e)
+
+      expect(error).toBeInstanceOf(IssuesParseError)
+      expect(error.message).toBe('Invalid issues.jsonl: line 2: error: merge conflict marker (and 1 more)')
+      expect(error.diagnostics.length).toBe(2)
+    })
+
+    test('strict mode passes clean files', async () => {
+      await writeFile(join(BEADS_DIR, 'issues.jsonl'), JSON.stringify(valid) + '\n')
+
+      expect(await readIssuesFromJsonl(BEADS_DIR, { strict: true })).toMatchObject({ issues: [{ id: 'proj-1' }], diagnostics: [] })
+    })
   })
 
   describe('findBeadsDir', () => {
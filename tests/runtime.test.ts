@@ -1,7 +1,8 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm } from 'fs/promises'
 import { join } from 'path'
-import { createRuntime, type Runtime, type HandlerContext } from '../src/runtime'
+import { createRuntime, loadHandlerModule, type Runtime, type HandlerContext, type HandlerFn } from '../src/runtime'
+import { createMutationPlan } from '../src/plan'
 
 const TEST_DIR = '/tmp/beads-runtime-test'
 const BEADS_DIR = join(TEST_DIR, '.beads')
@@ -210,5 +211,323 @@ describe('runtime', () => {
 
       expect(result.success).toBe(true)
     })
+
+    test('fails handlers that exceed timeoutMs', async () => {
+      const runtime = createRuntime(BEADS_DIR)
+      const issue = {
+        id: 'test-1',
+        title: 'Test',
+        status: 'open' as const,
+        type: 'task' as const,
+        priority: 2 as const,
+        created: new Date(),
+        updated: new Date(),
+        dependsOn: [],
+        blocks: [],
+      }
+
+      const handler = () => new Promise<void>((resolve) => setTimeout(resolve, 200))
+
+      const slow = await runtime.execute('issue.created', handler, { issue }, { timeoutMs: 20 })
+      const fast = await runtime.execute('issue.created', async () => {}, { issue }, { timeoutMs: 20 })
+
+      expect(slow).toMatchObject({ success: false, error: 'Handler timed out after 20ms' })
+      expect(fast.success).toBe(true)
+    })
+  })
+
+  describe('loadHandlerModule', () => {
+    const issue = {
+      id: 'test-1',
+      title: 'Test',
+      status: 'open' as const,
+      type: 'task' as const,
+      priority: 2 as const,
+      created: new Date(),
+      updated: new Date(),
+      dependsOn: [],
+      blocks: [],
+    }
+
+    async function load(filename: string, source: string): Promise<HandlerFn> {
+      const path = join(BEADS_DIR, filename)
+      await writeFile(path, source)
+      return (await loadHandlerModule(path)).default as HandlerFn
+    }
+
+    test('imports modules with a default export', async () => {
+      const path = join(BEADS_DIR, 'on.issue.created.ts')
+      await writeFile(path, 'export const order = 3\nexport default () => {}')
+
+      const module = await loadHandlerModule(path)
+
+      expect(module.order).toBe(3)
+      expect(typeof module.default).toBe('function')
+    })
+
+    test('runs top-level scripts with injected globals', async () => {
+      const seen: unknown[] = []
+      ;(globalThis as any).__seen = seen
+      const handler = await load('on.issue.created.ts', `
+const ready = await issues.ready()
+__seen.push(issue.id, event, ready.length, typeof previousIssue)
+`)
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue })
+
+      expect(result.success).toBe(true)
+      expect(seen).toEqual(['test-1', 'issue.created', 0, 'undefined'])
+      expect('issue' in globalThis).toBe(false)
+      delete (globalThis as any).__seen
+    })
+
+    test('gives each run a fresh scope', async () => {
+      const seen: string[] = []
+      ;(globalThis as any).__seen = seen
+      const handler = await load('on.issue.created.ts', `
+let count = 0
+const id = issue.id
+await new Promise((resolve) => setTimeout(resolve, 10))
+count++
+__seen.push(id + ':' + issue.id + ':' + count)
+`)
+
+      const runtime = createRuntime(BEADS_DIR)
+      await Promise.all([
+        runtime.execute('issue.created', handler, { issue }),
+        runtime.execute('issue.created', handler, { issue: { ...issue, id: 'test-2' } }),
+      ])
+
+      expect(seen.sort()).toEqual(['test-1:test-1:1', 'test-2:test-2:1'])
+      delete (globalThis as any).__seen
+    })
+
+    test('supports imports in scripts', async () => {
+      const out = join(TEST_DIR, 'out.txt')
+      await writeFile(join(BEADS_DIR, '_lib.ts'), 'export const prefix = "id"\nexport default (s: string) => s.toUpperCase()')
+      const handler = await load('on.issue.created.ts', `
+import type { Issue } from '../src/types'
+import { writeFileSync as write } from 'fs'
+import * as path from 'path'
+import upper, { prefix } from './_lib'
+const current: Issue = issue
+write(${JSON.stringify(out)}, upper(prefix + path.sep + current.id))
+`)
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue })
+
+      expect(result).toMatchObject({ success: true })
+      expect(await Bun.file(out).text()).toBe('ID/TEST-1')
+    })
+
+    test('supports imports spanning several lines', async () => {
+      const out = join(TEST_DIR, 'out.txt')
+      await writeFile(join(BEADS_DIR, '_helper.ts'), 'export const greet = (s: string) => `hi ${s}`\nexport const punct = "!"')
+      const handler = await load('on.issue.created.ts', `
+import {
+  greet,
+  punct as mark,
+} from './_helper'
+import { writeFileSync } from 'fs'
+writeFileSync(${JSON.stringify(out)}, greet(issue.id) + mark)
+`)
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue })
+
+      expect(result).toMatchObject({ success: true })
+      expect(await Bun.file(out).text()).toBe('hi test-1!')
+    })
+
+    test('reports errors thrown by scripts', async () => {
+      const handler = await load('on.issue.created.ts', 'if (issue.id) throw new Error("script failed")')
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue })
+
+      expect(result).toMatchObject({ success: false, error: 'script failed' })
+    })
+  })
+
+  describe('cancellation', () => {
+    const issue = {
+      id: 'test-1',
+      title: 'Test',
+      status: 'open' as const,
+      type: 'task' as const,
+      priority: 2 as const,
+      created: new Date(),
+      updated: new Date(),
+      dependsOn: [],
+      blocks: [],
+    }
+
+    test('aborts the handler signal on timeout', async () => {
+      let signal: AbortSignal | undefined
+      const handler = (ctx: HandlerContext) => {
+        signal = ctx.signal
+        return new Promise<void>((resolve) => ctx.signal.addEventListener('abort', () => resolve()))
+      }
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue }, { timeoutMs: 20 })
+
+      expect(result).toMatchObject({ success: false, timedOut: true })
+      expect(signal!.aborted).toBe(true)
+    })
+
+    test('aborts the handler signal when cancelled', async () => {
+      const controller = new AbortController()
+      const handler = (ctx: HandlerContext) =>
+        new Promise<void>((_, reject) => ctx.signal.addEventListener('abort', () => reject(new Error('stopped'))))
+
+      const pending = createRuntime(BEADS_DIR).execute('issue.created', handler, { issue }, { signal: controller.signal })
+      controller.abort()
+
+      expect(await pending).toMatchObject({ success: false, error: 'stopped' })
+    })
+  })
+
+  describe('logs', () => {
+    const issue = {
+      id: 'test-1',
+      title: 'Test',
+      status: 'open' as const,
+      type: 'task' as const,
+      priority: 2 as const,
+      created: new Date(),
+      updated: new Date(),
+      dependsOn: [],
+      blocks: [],
+    }
+
+    test('captures console output and ctx.log calls', async () => {
+      const handler = (ctx: HandlerContext) => {
+        console.log('processing', ctx.issue.id)
+        ctx.log.error('went wrong')
+      }
+
+      const result = await createRuntime(BEADS_DIR).execute('issue.created', handler, { issue })
+
+      expect(result.logs?.map(({ level, message }) => [level, message])).toEqual([
+        ['info', 'processing test-1'],
+        ['error', 'went wrong'],
+      ])
+    })
+
+    test('streams logs out of isolated handlers, even when they time out', async () => {
+      const path = join(BEADS_DIR, 'on.issue.created.ts')
+      await writeFile(path, `export default ({ log }) => { log.info('before hang'); while (true) {} }`)
+
+      const result = await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue }, { timeoutMs: 200 })
+
+      expect(result.timedOut).toBe(true)
+      expect(result.logs?.map((e) => e.message)).toEqual(['before hang'])
+    })
+  })
+
+  describe('isolated execution', () => {
+    const issue = {
+      id: 'test-1',
+      title: 'Test',
+      status: 'open' as const,
+      type: 'task' as const,
+      priority: 2 as const,
+      created: new Date(),
+      updated: new Date(),
+      dependsOn: [],
+      blocks: [],
+    }
+
+    async function handlerFile(source: string): Promise<string> {
+      const path = join(BEADS_DIR, 'on.issue.created.ts')
+      await writeFile(path, source)
+      return path
+    }
+
+    test('runs the handler file in a worker with its context', async () => {
+      const out = join(TEST_DIR, 'out.txt')
+      const path = await handlerFile(`import { writeFileSync } from 'fs'
+export default async ({ issue, event, issues }) => {
+  writeFileSync('${out}', [issue.id, event, issue.created instanceof Date, (await issues.list()).length].join(' '))
+}`)
+
+      const result = await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue })
+
+      expect(result.success).toBe(true)
+      expect(await Bun.file(out).text()).toBe('test-1 issue.created true 0')
+    })
+
+    test('runs top-level scripts', async () => {
+      const path = await handlerFile('if (issue.id !== "test-1") throw new Error("no issue")')
+
+      expect((await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue })).success).toBe(true)
+    })
+
+    test('reports handler errors', async () => {
+      const path = await handlerFile('export default () => { throw new Error("handler failed") }')
+
+      const result = await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue })
+
+      expect(result).toMatchObject({ success: false, error: 'handler failed' })
+    })
+
+    test('terminates handlers that hang past the timeout', async () => {
+      const path = await handlerFile('export default () => { while (true) {} }')
+
+      const result = await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue }, { timeoutMs: 50 })
+
+      expect(result).toMatchObject({ success: false, timedOut: true, error: 'Handler timed out after 50ms' })
+    })
+
+    test('lets handlers stop on their signal after a timeout', async () => {
+      const path = await handlerFile(`export default ({ signal }) => new Promise((resolve) => signal.addEventListener('abort', resolve))`)
+
+      const started = Date.now()
+      const result = await createRuntime(BEADS_DIR).executeIsolated('issue.created', path, { issue }, { timeoutMs: 50 })
+
+      expect(result).toMatchObject({ success: false, timedOut: true })
+      expect(Date.now() - started).toBeLessThan(1000)
+    })
+
+    test('contains crashes', async () => {
+      const exits = await handlerFile('export default () => { process.exit(3) }')
+      const exited = await createRuntime(BEADS_DIR).executeIsolated('issue.created', exits, { issue })
+
+      expect(exited).toMatchObject({ success: false, error: 'Handler worker exited with code 3' })
+
+      const throws = await handlerFile('export default () => { setTimeout(() => { throw new Error("late failure") }, 1); return new Promise(() => {}) }')
+      const crashed = await createRuntime(BEADS_DIR).executeIsolated('issue.created', throws, { issue })
+
+      expect(crashed.success).toBe(false)
+      expect(crashed.error).toContain('late failure')
+    })
+
+    test('plans mutations of dry runs in the runtime\'s plan', async () => {
+      await writeFile(JSONL_PATH, JSON.stringify({ id: 'test-1', title: 'Test', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n')
+      const path = await handlerFile(`export default async ({ issue, issues }) => {
+  await issues.close(issue.id, 'stale')
+  if ((await issues.get(issue.id)).status !== 'closed') throw new Error('plan not applied')
+}`)
+      const plan = createMutationPlan([{ op: 'update', id: 'test-1', options: { priority: 1 } }])
+
+      const result = await createRuntime(BEADS_DIR, { plan }).executeIsolated('issue.created', path, { issue })
+
+      expect(result.success).toBe(true)
+      expect(plan.list()).toEqual([
+        { op: 'update', id: 'test-1', options: { priority: 1 } },
+        { op: 'close', id: 'test-1', reason: 'stale' },
+      ])
+    })
+
+    test('runs schedule handler files', async () => {
+      const out = join(TEST_DIR, 'out.txt')
+      const path = join(BEADS_DIR, 'every.hour.ts')
+      await writeFile(path, `import { writeFileSync } from 'fs'
+export default ({ cron, triggeredAt, localTime }) => { writeFileSync('${out}', cron + ' ' + triggeredAt.toISOString() + ' ' + localTime.hour) }`)
+
+      const triggeredAt = new Date('2025-01-01T10:00:00Z')
+      const result = await createRuntime(BEADS_DIR).executeScheduleIsolated('0 * * * *', path, { triggeredAt, missedRuns: [], timezone: 'UTC' })
+
+      expect(result.success).toBe(true)
+      expect(await Bun.file(out).text()).toBe('0 * * * * 2025-01-01T10:00:00.000Z 10')
+    })
   })
 })
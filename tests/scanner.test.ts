@@ -1,7 +1,7 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm } from 'fs/promises'
 import { join } from 'path'
-import { createScanner, type Scanner, type HandlerInfo } from '../src/scanner'
+import { createScanner, parseScheduleName, parseHandlerName, type Scanner, type HandlerInfo } from '../src/scanner'
 
 const TEST_DIR = '/tmp/beads-scanner-test'
 const BEADS_DIR = join(TEST_DIR, '.beads')
@@ -258,4 +258,164 @@ describe('scanner', () => {
       expect(scheduleHandlers.every(h => h.cron !== undefined)).toBe(true)
     })
   })
+
+  describe('parseScheduleName', () => {
+    const cases: [string, string][] = [
+      ['minute', '* * * * *'],
+      ['hour', '0 * * * *'],
+      ['day', '0 0 * * *'],
+      ['week', '0 0 * * 0'],
+      ['month', '0 0 1 * *'],
+      ['5m', '*/5 * * * *'],
+      ['15m', '*/15 * * * *'],
+      ['60m', '0 * * * *'],
+      ['2h', '0 */2 * * *'],
+      ['monday', '0 0 * * 1'],
+      ['fri', '0 0 * * 5'],
+      ['weekday', '0 0 * * 1-5'],
+      ['weekend', '0 0 * * 0,6'],
+      ['monday-friday', '0 0 * * 1-5'],
+      ['day-0900', '0 9 * * *'],
+      ['weekday-9am', '0 9 * * 1-5'],
+      ['friday-530pm', '30 17 * * 5'],
+      ['monday-wednesday-1200am', '0 0 * * 1-3'],
+      ['9am', '0 9 * * *'],
+      ['12pm', '0 12 * * *'],
+    ]
+
+    for (const [name, cron] of cases) {
+      test(`parses ${name}`, () => {
+        expect(parseScheduleName(name)).toEqual({ cron })
+      })
+    }
+
+    test('rejects intervals that do not divide evenly', () => {
+      expect(parseScheduleName('7m')).toEqual({ error: 'interval "7m" must evenly divide 60 minutes' })
+      expect(parseScheduleName('5h')).toEqual({ error: 'interval "5h" must evenly divide 24 hours' })
+    })
+
+    test('rejects unknown names and invalid times', () => {
+      expect('error' in parseScheduleName('fortnight')).toBe(true)
+      expect('error' in parseScheduleName('day-2500')).toBe(true)
+      expect('error' in parseScheduleName('friday-monday')).toBe(true)
+      expect('error' in parseScheduleName('13pm')).toBe(true)
+    })
+  })
+
+  describe('schedule filenames', () => {
+    test('uses schedule.<name> events for new names', async () => {
+      await writeFile(join(BEADS_DIR, 'every.weekday-9am.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      const handlers = await scanner.scan()
+
+      expect(handlers[0]).toMatchObject({ event: 'schedule.weekday-9am', cron: '0 9 * * 1-5' })
+    })
+
+    test('reports unparseable names as diagnostics', async () => {
+      await writeFile(join(BEADS_DIR, 'every.fortnight.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      await scanner.scan()
+
+      const scheduleHandlers = scanner.getScheduleHandlers()
+      expect(scheduleHandlers.length).toBe(1)
+      expect(scheduleHandlers[0]!.cron).toBeUndefined()
+
+      const diagnostics = scanner.getDiagnostics()
+      expect(diagnostics.length).toBe(1)
+      expect(diagnostics[0]).toMatchObject({ filename: 'every.fortnight.ts' })
+      expect(diagnostics[0]!.message).toContain('unrecognized schedule "fortnight"')
+    })
+
+    test('clears diagnostics on rescan', async () => {
+      await writeFile(join(BEADS_DIR, 'every.fortnight.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      await scanner.scan()
+      await rm(join(BEADS_DIR, 'every.fortnight.ts'))
+      await scanner.scan()
+
+      expect(scanner.getDiagnostics()).toEqual([])
+    })
+  })
+
+  describe('multiple handlers per event', () => {
+    test('splits handler suffixes off known events', () => {
+      expect(parseHandlerName('issue.closed')).toEqual({ event: 'issue.closed' })
+      expect(parseHandlerName('issue.closed.notify')).toEqual({ event: 'issue.closed', suffix: 'notify' })
+      expect(parseHandlerName('epic.completed.10-release')).toEqual({ event: 'epic.completed', suffix: '10-release' })
+      expect(parseHandlerName('issue.status.changed')).toEqual({ event: 'issue.status.changed' })
+    })
+
+    test('registers suffixed files as separate handlers', async () => {
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.ts'), 'export default () => {}')
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.notify.ts'), 'export default () => {}')
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.close-epic.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      const handlers = await scanner.scan()
+
+      expect(handlers.length).toBe(3)
+      expect(handlers.every((h) => h.event === 'issue.closed')).toBe(true)
+      expect(scanner.getHandlers().get('issue.closed')!.map((h) => h.name)).toEqual([
+        'on.issue.closed.close-epic.ts',
+        'on.issue.closed.notify.ts',
+        'on.issue.closed.ts',
+      ])
+    })
+
+    test('finds handlers in workflows/on.<event> directories', async () => {
+      const dir = join(BEADS_DIR, 'workflows', 'on.issue.closed')
+      await mkdir(dir, { recursive: true })
+      await writeFile(join(dir, 'notify.ts'), 'export default () => {}')
+      await writeFile(join(dir, '_shared.ts'), 'export const x = 1')
+      await writeFile(join(dir, 'README.md'), '# handlers')
+
+      const scanner = createScanner(BEADS_DIR)
+      const handlers = await scanner.scan()
+
+      expect(handlers.length).toBe(1)
+      expect(handlers[0]).toMatchObject({
+        event: 'issue.closed',
+        filename: 'notify.ts',
+        name: 'workflows/on.issue.closed/notify.ts',
+        path: join(dir, 'notify.ts'),
+      })
+    })
+
+    test('finds schedule handlers in workflows/every.<schedule> directories', async () => {
+      const dir = join(BEADS_DIR, 'workflows', 'every.weekday-9am')
+      await mkdir(dir, { recursive: true })
+      await writeFile(join(dir, 'standup.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      await scanner.scan()
+
+      expect(scanner.getScheduleHandlers()[0]).toMatchObject({
+        name: 'workflows/every.weekday-9am/standup.ts',
+        cron: '0 9 * * 1-5',
+      })
+    })
+
+    test('orders handlers by numeric prefix, then name', async () => {
+      const dir = join(BEADS_DIR, 'workflows', 'on.issue.closed')
+      await mkdir(dir, { recursive: true })
+      await writeFile(join(dir, '20-notify.ts'), 'export default () => {}')
+      await writeFile(join(dir, '3-close-epic.ts'), 'export default () => {}')
+      await writeFile(join(dir, 'audit.ts'), 'export default () => {}')
+      await writeFile(join(BEADS_DIR, 'on.issue.closed.10-label.ts'), 'export default () => {}')
+
+      const scanner = createScanner(BEADS_DIR)
+      await scanner.scan()
+
+      const handlers = scanner.getHandlers().get('issue.closed')!
+      expect(handlers.map((h) => [h.filename, h.order])).toEqual([
+        ['audit.ts', undefined],
+        ['3-close-epic.ts', 3],
+        ['on.issue.closed.10-label.ts', 10],
+        ['20-notify.ts', 20],
+      ])
+    })
+  })
 })
@@ -43,6 +43,13 @@ describe('schedule', () => {
       expect(handlers.length).toBe(3)
     })
 
+    test('registers options with the handler', () => {
+      every('0 9 * * 1-5', async () => {}, { timezone: 'America/Chicago', catchUp: 'skip' })
+
+      const handlers = getScheduledHandlers()
+      expect(handlers[0]).toMatchObject({ cron: '0 9 * * 1-5', timezone: 'America/Chicago', catchUp: 'skip' })
+    })
+
     test('can register multiple handlers for same cron', () => {
       every('0 * * * *', async () => console.log('first'))
       every('0 * * * *', async () => console.log('second'))
@@ -95,6 +102,10 @@ describe('schedule', () => {
       const mockContext: ScheduleContext = {
         cron: '0 * * * *',
         triggeredAt: new Date(),
+        localTime: {} as any,
+        missedRuns: [],
+        signal: new AbortController().signal,
+        log: console,
         issues: {} as any,
         epics: {} as any,
       }
@@ -116,6 +127,10 @@ describe('schedule', () => {
       const mockContext: ScheduleContext = {
         cron: '0 * * * *',
         triggeredAt: now,
+        localTime: {} as any,
+        missedRuns: [],
+        signal: new AbortController().signal,
+        log: console,
         issues: {} as any,
         epics: {} as any,
       }
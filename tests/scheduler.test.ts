@@ -0,0 +1,197 @@
+import { describe, expect, test } from 'bun:test'
+import { createScheduler, type ScheduledJobRun } from '../src/scheduler'
+
+describe('scheduler', () => {
+  test('computes the next run for each job', () => {
+    const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30) })
+
+    scheduler.add({ name: 'hourly', cron: '0 * * * *', run: () => {} })
+    scheduler.add({ name: 'daily', cron: '0 0 * * *', run: () => {} })
+
+    expect(scheduler.getRuns()).toEqual([
+      { name: 'hourly', cron: '0 * * * *', next: new Date(2025, 0, 1, 11, 0) },
+      { name: 'daily', cron: '0 0 * * *', next: new Date(2025, 0, 2, 0, 0) },
+    ])
+  })
+
+  test('evaluates jobs in their time zone', async () => {
+    const scheduler = createScheduler({ now: () => new Date('2025-03-08T16:00:00Z') })
+    const runs: ScheduledJobRun[] = []
+
+    scheduler.add({ name: 'standup', cron: '0 9 * * *', timezone: 'America/Chicago', run: (run) => { runs.push(run) } })
+
+    // 09:00 CDT, the day DST starts
+    expect(scheduler.getRuns()[0]).toMatchObject({ timezone: 'America/Chicago', next: new Date('2025-03-09T14:00:00Z') })
+
+    await scheduler.tick(new Date('2025-03-09T14:00:00Z'))
+
+    expect(runs[0]).toMatchObject({ triggeredAt: new Date('2025-03-09T14:00:00Z'), timezone: 'America/Chicago' })
+  })
+
+  test('throws for invalid time zones', () => {
+    const scheduler = createScheduler()
+
+    expect(() => scheduler.add({ name: 'bad', cron: '0 * * * *', timezone: 'Nowhere/Land', run: () => {} })).toThrow('Invalid time zone')
+  })
+
+  test('throws for invalid cron expressions', () => {
+    const scheduler = createScheduler()
+
+    expect(() => scheduler.add({ name: 'bad', cron: '61 * * * *', run: () => {} })).toThrow()
+  })
+
+  test('tick runs due jobs with their scheduled time', async () => {
+    const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30) })
+    const runs: string[] = []
+
+    scheduler.add({ name: 'hourly', cron: '0 * * * *', run: ({ triggeredAt }) => { runs.push(`hourly@${triggeredAt.getHours()}`) } })
+    scheduler.add({ name: 'daily', cron: '0 0 * * *', run: () => { runs.push('daily') } })
+
+    await scheduler.tick(new Date(2025, 0, 1, 11, 0))
+
+    expect(runs).toEqual(['hourly@11'])
+    expect(scheduler.getRuns()[0]!.next).toEqual(new Date(2025, 0, 1, 12, 0))
+  })
+
+  test('tick does nothing before the next run', async () => {
+    const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30) })
+    let runs = 0
+
+    scheduler.add({ name: 'hourly', cron: '0 * * * *', run: () => { runs++ } })
+
+    await scheduler.tick(new Date(2025, 0, 1, 10, 59))
+
+    expect(runs).toBe(0)
+  })
+
+  test('keeps running when a job throws', async () => {
+    const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30) })
+    let runs = 0
+
+    scheduler.add({ name: 'broken', cron: '0 * * * *', run: () => { throw new Error('boom') } })
+    scheduler.add({ name: 'ok', cron: '0 * * * *', run: () => { runs++ } })
+
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      await scheduler.tick(new Date(2025, 0, 1, 11, 0))
+    } finally {
+      console.error = originalError
+    }
+
+    expect(runs).toBe(1)
+  })
+
+  test('fires jobs from its timer while started', async () => {
+    // Clock starting 50ms before the top of the hour
+    const start = new Date(2025, 0, 1, 10, 59, 59, 950).getTime()
+    const origin = Date.now()
+    const scheduler = createScheduler({ now: () => new Date(start + Date.now() - origin) })
+    let runs = 0
+
+    scheduler.add({ name: 'every minute', cron: '* * * * *', run: () => { runs++ } })
+    scheduler.start()
+
+    await new Promise((r) => setTimeout(r, 150))
+    await scheduler.stop()
+
+    expect(runs).toBeGreaterThanOrEqual(1)
+    expect(scheduler.isRunning()).toBe(false)
+  })
+
+  describe('catch-up', () => {
+    // Daily job last ran Jan 1, daemon starts Jan 4 at 08:00
+    const lastRunAt = new Date(2025, 0, 1, 0, 0)
+    const startedAt = new Date(2025, 0, 4, 8, 0)
+
+    function daily(catchUp: 'skip' | 'once' | 'all' | undefined, runs: ScheduledJobRun[]) {
+      const scheduler = createScheduler({ now: () => startedAt })
+      scheduler.add({ name: 'daily', cron: '0 0 * * *', catchUp, lastRunAt, run: (run) => { runs.push(run) } })
+      return scheduler
+    }
+
+    test('schedules the first missed run immediately', () => {
+      const scheduler = daily('once', [])
+
+      expect(scheduler.getRuns()[0]).toMatchObject({ next: new Date(2025, 0, 2, 0, 0), lastRunAt })
+    })
+
+    test('once runs a single time covering the gap', async () => {
+      const runs: ScheduledJobRun[] = []
+      const scheduler = daily('once', runs)
+
+      await scheduler.tick(startedAt)
+
+      expect(runs).toEqual([
+        {
+          triggeredAt: new Date(2025, 0, 4, 0, 0),
+          lastRunAt,
+          missedRuns: [new Date(2025, 0, 2, 0, 0), new Date(2025, 0, 3, 0, 0)],
+        },
+      ])
+      expect(scheduler.getRuns()[0]).toMatchObject({
+        next: new Date(2025, 0, 5, 0, 0),
+        lastRunAt: new Date(2025, 0, 4, 0, 0),
+      })
+    })
+
+    test('once is the default policy', async () => {
+      const runs: ScheduledJobRun[] = []
+      const scheduler = daily(undefined, runs)
+
+      await scheduler.tick(startedAt)
+
+      expect(runs.length).toBe(1)
+    })
+
+    test('all runs every missed fire time in order', async () => {
+      const runs: ScheduledJobRun[] = []
+      const scheduler = daily('all', runs)
+
+      await scheduler.tick(startedAt)
+
+      expect(runs.map((r) => r.triggeredAt.getDate())).toEqual([2, 3, 4])
+      expect(runs.map((r) => r.lastRunAt?.getDate())).toEqual([1, 2, 3])
+      expect(runs.every((r) => r.missedRuns.length === 0)).toBe(true)
+    })
+
+    test('skip drops missed runs', async () => {
+      const runs: ScheduledJobRun[] = []
+      const scheduler = daily('skip', runs)
+
+      await scheduler.tick(startedAt)
+
+      expect(runs).toEqual([])
+      expect(scheduler.getRuns()[0]!.next).toEqual(new Date(2025, 0, 5, 0, 0))
+    })
+
+    test('skip still runs on time', async () => {
+      const runs: ScheduledJobRun[] = []
+      const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30), catchUp: 'skip' })
+      scheduler.add({ name: 'hourly', cron: '0 * * * *', run: (run) => { runs.push(run) } })
+
+      await scheduler.tick(new Date(2025, 0, 1, 11, 0, 5))
+
+      expect(runs.map((r) => r.triggeredAt)).toEqual([new Date(2025, 0, 1, 11, 0)])
+    })
+
+    test('failed runs do not advance lastRunAt', async () => {
+      const seen: (Date | undefined)[] = []
+      const scheduler = createScheduler({ now: () => new Date(2025, 0, 1, 10, 30) })
+      scheduler.add({
+        name: 'hourly',
+        cron: '0 * * * *',
+        run: ({ lastRunAt, missedRuns }) => {
+          seen.push(lastRunAt, ...missedRuns)
+          return false
+        },
+      })
+
+      await scheduler.tick(new Date(2025, 0, 1, 11, 0))
+      await scheduler.tick(new Date(2025, 0, 1, 12, 0))
+
+      expect(seen).toEqual([undefined, undefined])
+      expect(scheduler.getRuns()[0]!.lastRunAt).toBeUndefined()
+    })
+  })
+})
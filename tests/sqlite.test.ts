@@ -0,0 +1,193 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { mkdir, writeFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { readIssuesFromSqlite } from '../src/sqlite'
+import { readIssues, resolveDatabasePath } from '../src/source'
+import { readIssuesFromJsonl } from '../src/reader'
+
+const TEST_DIR = '/tmp/beads-sqlite-test'
+
+// Subset of the bd schema, including bookkeeping columns bd does not export
+const SCHEMA = `
+  CREATE TABLE issues (
+    id TEXT PRIMARY KEY,
+    content_hash TEXT,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    design TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'open',
+    priority INTEGER NOT NULL DEFAULT 2,
+    issue_type TEXT NOT NULL DEFAULT 'task',
+    assignee TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    closed_at DATETIME,
+    close_reason TEXT DEFAULT '',
+    external_ref TEXT,
+    compaction_level INTEGER DEFAULT 0
+  );
+  CREATE TABLE dependencies (
+    issue_id TEXT NOT NULL,
+    depends_on_id TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'blocks',
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (issue_id, depends_on_id)
+  );
+  CREATE TABLE labels (
+    issue_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    PRIMARY KEY (issue_id, label)
+  );
+  CREATE TABLE comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    issue_id TEXT NOT NULL,
+    author TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+`
+
+function createDatabase(path: string): void {
+  const db = new Database(path)
+  db.exec(SCHEMA)
+  db.exec(`
+    INSERT INTO issues (id, content_hash, title, description, status, priority, issue_type, assignee, created_at, updated_at)
+      VALUES ('bw-1', 'abc', 'Epic', 'The epic', 'open', 1, 'epic', 'alice', '2025-01-01 10:00:00', '2025-01-01 10:00:00');
+    INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at, closed_at, close_reason, external_ref)
+      VALUES ('bw-2', 'Child', 'closed', 0, 'task', '2025-01-02 10:00:00.123456-06:00', '2025-01-03T10:00:00Z', '2025-01-03T10:00:00Z', 'done', 'gh-7');
+    INSERT INTO issues (id, title, design) VALUES ('bw-3', 'Blocked', 'Some design');
+    INSERT INTO dependencies (issue_id, depends_on_id, type) VALUES ('bw-2', 'bw-1', 'parent-child');
+    INSERT INTO dependencies (issue_id, depends_on_id, type) VALUES ('bw-3', 'bw-2', 'blocks');
+    INSERT INTO labels (issue_id, label) VALUES ('bw-1', 'urgent'), ('bw-1', 'backend');
+    INSERT INTO comments (issue_id, author, text, created_at) VALUES ('bw-2', 'bob', 'Looks good', '2025-01-03 09:00:00');
+  `)
+  db.close()
+}
+
+const jsonlIssue = {
+  id: 'bw-9',
+  title: 'From JSONL',
+  status: 'open',
+  priority: 2,
+  issue_type: 'task',
+  created_at: '2025-01-01T10:00:00Z',
+  updated_at: '2025-01-01T10:00:00Z',
+}
+
+describe('sqlite', () => {
+  beforeEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true })
+    await mkdir(TEST_DIR, { recursive: true })
+    await writeFile(join(TEST_DIR, 'issues.jsonl'), JSON.stringify(jsonlIssue) + '\n')
+  })
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true })
+  })
+
+  describe('readIssuesFromSqlite', () => {
+    test('reads issues with labels, dependencies and comments', async () => {
+      createDatabase(join(TEST_DIR, 'beads.db'))
+
+      const issues = await readIssuesFromSqlite(join(TEST_DIR, 'beads.db'))
+      const [epic, child, blocked] = issues
+
+      expect(issues.map((i) => i.id)).toEqual(['bw-1', 'bw-2', 'bw-3'])
+      expect(epic).toMatchObject({
+        title: 'Epic',
+        description: 'The epic',
+        type: 'epic',
+        priority: 1,
+        assignee: 'alice',
+        labels: ['backend', 'urgent'],
+        children: ['bw-2'],
+      })
+      expect(epic!.created.toISOString()).toBe('2025-01-01T10:00:00.000Z')
+      expect(child).toMatchObject({
+        status: 'closed',
+        priority: 0,
+        closeReason: 'done',
+        externalRef: 'gh-7',
+        parent: 'bw-1',
+        dependsOn: ['bw-1'],
+        blocks: ['bw-3'],
+        comments: [{ id: 1, author: 'bob', text: 'Looks good' }],
+      })
+      expect(child!.created.toISOString()).toBe('2025-01-02T16:00:00.123Z')
+      expect(child!.comments![0]!.created.toISOString()).toBe('2025-01-03T09:00:00.000Z')
+      expect(blocked!.dependencies).toEqual([{ id: 'bw-2', type: 'blocks' }])
+      expect(blocked!.extra).toEqual({ design: 'Some design' })
+    })
+
+    test('leaves out empty and bookkeeping columns', async () => {
+      createDatabase(join(TEST_DIR, 'beads.db'))
+
+      const [epic] = await readIssuesFromSqlite(join(TEST_DIR, 'beads.db'))
+
+      expect(epic!.extra).toBeUndefined()
+      expect(epic!.closeReason).toBeUndefined()
+      expect(epic!.comments).toBeUndefined()
+    })
+
+    test('reads databases without the related tables', async () => {
+      const db = new Database(join(TEST_DIR, 'beads.db'))
+      db.exec(SCHEMA.split(';')[0]!)
+      db.exec("INSERT INTO issues (id, title) VALUES ('bw-1', 'Only')")
+      db.close()
+
+      const issues = await readIssuesFromSqlite(join(TEST_DIR, 'beads.db'))
+
+      expect(issues).toHaveLength(1)
+      expect(issues[0]).toMatchObject({ id: 'bw-1', dependsOn: [], blocks: [] })
+    })
+
+    test('yields the same shape as the JSONL reader', async () => {
+      createDatabase(join(TEST_DIR, 'beads.db'))
+      const fromSqlite = await readIssuesFromSqlite(join(TEST_DIR, 'beads.db'))
+      const lines = [
+        { id: 'bw-1', title: 'Epic', description: 'The epic', status: 'open', priority: 1, issue_type: 'epic', assignee: 'alice', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z', labels: ['backend', 'urgent'] },
+        { id: 'bw-2', title: 'Child', status: 'closed', priority: 0, issue_type: 'task', created_at: '2025-01-02T10:00:00.123456-06:00', updated_at: '2025-01-03T10:00:00Z', closed_at: '2025-01-03T10:00:00Z', close_reason: 'done', external_ref: 'gh-7', dependencies: [{ issue_id: 'bw-2', depends_on_id: 'bw-1', type: 'parent-child' }], comments: [{ id: 1, issue_id: 'bw-2', author: 'bob', text: 'Looks good', created_at: '2025-01-03T09:00:00Z' }] },
+      ]
+      await writeFile(join(TEST_DIR, 'issues.jsonl'), lines.map((l) => JSON.stringify(l)).join('\n'))
+
+      const fromJsonl = await readIssuesFromJsonl(TEST_DIR)
+
+      expect(fromSqlite[0]).toEqual(fromJsonl[0]!)
+      expect(fromSqlite[1]).toEqual({ ...fromJsonl[1]!, blocks: ['bw-3'] })
+    })
+  })
+
+  describe('readIssues', () => {
+    test('reads JSONL by default', async () => {
+      createDatabase(join(TEST_DIR, 'beads.db'))
+
+      const issues = await readIssues(TEST_DIR)
+
+      expect(issues.map((i) => i.id)).toEqual(['bw-9'])
+    })
+
+    test('auto prefers the database and falls back to JSONL', async () => {
+      expect((await readIssues(TEST_DIR, 'auto')).map((i) => i.id)).toEqual(['bw-9'])
+
+      createDatabase(join(TEST_DIR, 'beads.db'))
+
+      expect((await readIssues(TEST_DIR, 'auto')).map((i) => i.id)).toEqual(['bw-1', 'bw-2', 'bw-3'])
+    })
+
+    test('auto falls back to JSONL when the database cannot be read', async () => {
+      await writeFile(join(TEST_DIR, 'beads.db'), 'not a database')
+
+      expect((await readIssues(TEST_DIR, 'auto')).map((i) => i.id)).toEqual(['bw-9'])
+      await expect(readIssues(TEST_DIR, 'sqlite')).rejects.toThrow()
+    })
+
+    test('uses the database named in metadata.json', async () => {
+      createDatabase(join(TEST_DIR, 'other.db'))
+      await writeFile(join(TEST_DIR, 'metadata.json'), JSON.stringify({ database: 'other.db', jsonl_export: 'issues.jsonl' }))
+
+      expect(await resolveDatabasePath(TEST_DIR)).toBe(join(TEST_DIR, 'other.db'))
+      expect((await readIssues(TEST_DIR, 'sqlite')).map((i) => i.id)).toEqual(['bw-1', 'bw-2', 'bw-3'])
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, appendFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { createBdStore, createMemoryStore } from '../src/store'
+import { createIssuesApi } from '../src/issues'
+import { createEpicsApi } from '../src/epics'
+import { createWatcher, type WatcherEvent } from '../src/watcher'
+import { Beads } from '../src/beads'
+import { Stats } from '../src/components'
+import type { Issue } from '../src/types'
+
+const TEST_DIR = '/tmp/beads-store-test'
+
+function issue(id: string, fields: Partial<Issue> = {}): Issue {
+  return {
+    id,
+    title: `Issue ${id}`,
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    created: new Date('2025-01-01T10:00:00Z'),
+    updated: new Date('2025-01-01T10:00:00Z'),
+    dependsOn: [],
+    blocks: [],
+    ...fields,
+  }
+}
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+describe('store', () => {
+  describe('createMemoryStore', () => {
+    test('applies mutations and notifies subscribers', async () => {
+      const store = createMemoryStore([issue('bw-1')])
+      const seen: string[][] = []
+      const unsubscribe = store.subscribe((issues) => seen.push(issues.map((i) => `${i.id}:${i.status}`)))
+
+      const id = await store.mutate({ op: 'create', options: { title: 'New', type: 'bug', priority: 1 } })
+      await store.mutate({ op: 'close', id: 'bw-1', reason: 'done' })
+      unsubscribe()
+      await store.mutate({ op: 'update', id: 'bw-1', options: { status: 'open' } })
+
+      expect(id).toBe('mem-1')
+      expect(seen).toEqual([
+        ['bw-1:open', 'mem-1:open'],
+        ['bw-1:closed', 'mem-1:open'],
+      ])
+      expect((await store.load()).map((i) => i.status)).toEqual(['open', 'open'])
+    })
+
+    test('fails mutations of unknown issues', async () => {
+      const store = createMemoryStore()
+
+      expect(await store.mutate({ op: 'update', id: 'bw-9', options: { priority: 0 } })).toBeNull()
+      expect(await store.mutate({ op: 'close', id: 'bw-9' })).toBeNull()
+      expect(await store.load()).toEqual([])
+    })
+
+    test('skips ids already taken', async () => {
+      const store = createMemoryStore([issue('t-1')], { prefix: 't' })
+
+      expect(await store.mutate({ op: 'create', options: { title: 'A', type: 'task', priority: 2 } })).toBe('t-2')
+    })
+  })
+
+  describe('APIs on a store', () => {
+    test('issues API reads and mutates through the store', async () => {
+      const store = createMemoryStore([issue('bw-1'), issue('bw-2', { dependsOn: ['bw-1'] })])
+      const issues = createIssuesApi('/nonexistent/.beads', { store })
+
+      expect((await issues.ready()).map((i) => i.id)).toEqual(['bw-1'])
+
+      expect(await issues.close('bw-1')).toBe(true)
+      expect((await issues.ready()).map((i) => i.id)).toEqual(['bw-2'])
+
+      const created = await issues.create({ title: 'Follow-up', type: 'task', priority: 1 })
+      expect(created).toMatchObject({ id: 'mem-1', title: 'Follow-up' })
+      expect(await issues.update('bw-9', { priority: 0 })).toBeNull()
+    })
+
+    test('epics API reads through the store', async () => {
+      const store = createMemoryStore([
+        issue('bw-1', { type: 'epic', children: ['bw-2'] }),
+        issue('bw-2', { parent: 'bw-1', dependsOn: ['bw-1'], status: 'closed' }),
+      ])
+      const epics = createEpicsApi('/nonexistent/.beads', { store })
+
+      expect(await epics.progress('bw-1')).toMatchObject({ total: 1, closed: 1 })
+    })
+
+    test('components render from the store', async () => {
+      const store = createMemoryStore([issue('bw-1'), issue('bw-2', { status: 'closed' })])
+
+      const output = await Stats({ store })
+
+      expect(output).toContain('1 closed · 2 total')
+    })
+  })
+
+  describe('watching a store', () => {
+    test('watcher emits events for store changes', async () => {
+      const store = createMemoryStore([issue('bw-1')])
+      const watcher = createWatcher('/nonexistent/.beads', { store })
+      const events: WatcherEvent[] = []
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+      await store.mutate({ op: 'update', id: 'bw-1', options: { assignee: 'alice' } })
+      await store.mutate({ op: 'create', options: { title: 'New', type: 'task', priority: 2 } })
+      await watcher.stop()
+      await store.mutate({ op: 'close', id: 'bw-1' })
+
+      expect(events.map((e) => `${e.type} ${e.issue.id}`)).toEqual(['updated bw-1', 'created mem-1'])
+      expect(events[0]!.changes!.assignee).toEqual({ from: undefined, to: 'alice' })
+    })
+
+    test('Beads runs hooks on an in-memory store', async () => {
+      const store = createMemoryStore([issue('bw-1')])
+      const beads = Beads({ store })
+      const closed: string[] = []
+      beads.on.issue.closed((closedIssue) => {
+        closed.push(closedIssue.id)
+      })
+
+      await beads.watch()
+      await beads.issues.close('bw-1')
+      await beads.unwatch()
+
+      expect(closed).toEqual(['bw-1'])
+    })
+  })
+
+  describe('createBdStore', () => {
+    const line = (id: string, status = 'open') =>
+      JSON.stringify({ id, title: id, status, priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }) + '\n'
+
+    beforeEach(async () => {
+      await rm(TEST_DIR, { recursive: true, force: true })
+      await mkdir(TEST_DIR, { recursive: true })
+      await writeFile(join(TEST_DIR, 'issues.jsonl'), line('bw-1'))
+    })
+
+    afterEach(async () => {
+      await rm(TEST_DIR, { recursive: true, force: true })
+    })
+
+    test('loads issues.jsonl and reports changes to it', async () => {
+      const store = createBdStore(TEST_DIR)
+      const seen: string[][] = []
+
+      expect((await store.load()).map((i) => i.id)).toEqual(['bw-1'])
+
+      const unsubscribe = store.subscribe((issues) => seen.push(issues.map((i) => i.id)))
+      await wait(100)
+      await appendFile(join(TEST_DIR, 'issues.jsonl'), line('bw-2'))
+      for (let i = 0; i < 40 && seen.length === 0; i++) await wait(50)
+      unsubscribe()
+
+      expect(seen[0]).toEqual(['bw-1', 'bw-2'])
+    })
+
+    test('stamps the database named in metadata.json', async () => {
+      await writeFile(join(TEST_DIR, 'metadata.json'), JSON.stringify({ database: 'other.db' }))
+      await writeFile(join(TEST_DIR, 'other.db'), '')
+      const store = createBdStore(TEST_DIR, { source: 'sqlite' })
+
+      const first = await store.stamp!()
+      await writeFile(join(TEST_DIR, 'beads.db'), 'unused')
+      expect(await store.stamp!()).toBe(first)
+
+      await writeFile(join(TEST_DIR, 'other.db'), 'changed')
+      const second = await store.stamp!()
+      expect(second).not.toBe(first)
+
+      await writeFile(join(TEST_DIR, 'metadata.json'), JSON.stringify({ database: 'beads.db' }))
+      const third = await store.stamp!()
+      await writeFile(join(TEST_DIR, 'beads.db'), 'now in use')
+      expect(await store.stamp!()).not.toBe(third)
+    })
+  })
+})
@@ -1,7 +1,7 @@
 import { describe, expect, test, beforeEach, afterEach } from 'bun:test'
-import { mkdir, writeFile, rm, appendFile } from 'fs/promises'
+import { mkdir, writeFile, rm, appendFile, readFile } from 'fs/promises'
 import { join } from 'path'
-import { createWatcher, type Watcher, type WatcherEvent } from '../src/watcher'
+import { createWatcher, CHECKPOINT_FILE, type Watcher, type WatcherEvent } from '../src/watcher'
 
 const TEST_DIR = '/tmp/beads-watcher-test'
 const BEADS_DIR = join(TEST_DIR, '.beads')
@@ -77,6 +77,34 @@ describe('watcher', () => {
       expect(events.length).toBe(2)
     })
 
+    test('awaits async handlers before emitting the next event', async () => {
+      const watcher = createWatcher(BEADS_DIR)
+      const log: string[] = []
+
+      watcher.on('issue', async (event) => {
+        log.push(`start ${event.issue.id}`)
+        await new Promise(r => setTimeout(r, 20))
+        log.push(`end ${event.issue.id}`)
+      })
+      watcher.on('change', () => {
+        log.push('change')
+      })
+
+      await watcher.start()
+
+      const issues = [
+        { id: 'proj-1', title: 'First', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' },
+        { id: 'proj-2', title: 'Second', status: 'open', priority: 1, issue_type: 'bug', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' },
+      ]
+      await appendFile(JSONL_PATH, issues.map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(log).toEqual(['start proj-1', 'end proj-1', 'start proj-2', 'end proj-2', 'change'])
+    })
+
     test('detects status change (closed)', async () => {
       // Start with an open issue
       const initial = { id: 'proj-1', title: 'Task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
@@ -104,6 +132,187 @@ describe('watcher', () => {
     })
   })
 
+  describe('field changes', () => {
+    test('emits updated with changes for non-status edits', async () => {
+      const initial = { id: 'proj-1', title: 'Task', status: 'open', priority: 2, issue_type: 'task', assignee: 'alice', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(initial) + '\n')
+
+      const watcher = createWatcher(BEADS_DIR)
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+
+      const reassigned = { ...initial, priority: 0, assignee: 'bob', updated_at: '2025-01-02T10:00:00Z' }
+      await appendFile(JSONL_PATH, JSON.stringify(reassigned) + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(events.length).toBe(1)
+      expect(events[0]!.type).toBe('updated')
+      expect(events[0]!.changes).toEqual({
+        priority: { from: 2, to: 0 },
+        assignee: { from: 'alice', to: 'bob' },
+      })
+    })
+
+    test('emits updated for edits to extra fields', async () => {
+      const initial = { id: 'proj-1', title: 'Task', status: 'open', priority: 2, issue_type: 'task', notes: 'Draft', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(initial) + '\n')
+
+      const watcher = createWatcher(BEADS_DIR)
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+
+      const edited = { ...initial, notes: 'Final', updated_at: '2025-01-02T10:00:00Z' }
+      await appendFile(JSONL_PATH, JSON.stringify(edited) + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(events.length).toBe(1)
+      expect(events[0]!.type).toBe('updated')
+      expect(events[0]!.changes).toEqual({
+        extra: { from: { notes: 'Draft' }, to: { notes: 'Final' } },
+      })
+    })
+
+    test('ignores rewrites without field changes', async () => {
+      const initial = { id: 'proj-1', title: 'Task', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(initial) + '\n')
+
+      const watcher = createWatcher(BEADS_DIR)
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+
+      await appendFile(JSONL_PATH, JSON.stringify(initial) + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('rewrites and deletions', () => {
+    test('detects changes when the file is compacted', async () => {
+      // Snapshot with history - bd compacts this down to one line per issue
+      const v1 = { id: 'proj-1', title: 'Task with a long original title', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const v2 = { ...v1, title: 'Task', updated_at: '2025-01-01T11:00:00Z' }
+      await writeFile(JSONL_PATH, [v1, v2].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      const watcher = createWatcher(BEADS_DIR)
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+
+      const closed = { ...v2, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(closed) + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(events.map(e => e.type)).toEqual(['closed'])
+    })
+
+    test('emits deleted when an issue disappears', async () => {
+      const first = { id: 'proj-1', title: 'First', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const second = { ...first, id: 'proj-2', title: 'Second' }
+      await writeFile(JSONL_PATH, [first, second].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      const watcher = createWatcher(BEADS_DIR)
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+
+      await writeFile(JSONL_PATH, JSON.stringify(first) + '\n')
+
+      await new Promise(r => setTimeout(r, 250))
+
+      await watcher.stop()
+
+      expect(events.length).toBe(1)
+      expect(events[0]!.type).toBe('deleted')
+      expect(events[0]!.issue.id).toBe('proj-2')
+    })
+  })
+
+  describe('checkpoint', () => {
+    test('replays changes made while stopped', async () => {
+      const first = { id: 'proj-1', title: 'First', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      const second = { ...first, id: 'proj-2', title: 'Second' }
+      await writeFile(JSONL_PATH, [first, second].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      // First run seeds the checkpoint
+      const initial = createWatcher(BEADS_DIR, { checkpoint: true })
+      await initial.start()
+      await initial.stop()
+
+      expect(await readFile(join(BEADS_DIR, CHECKPOINT_FILE), 'utf-8')).toContain('proj-2')
+
+      // Changes while the watcher is down
+      const closed = { ...first, status: 'closed', closed_at: '2025-01-02T10:00:00Z', updated_at: '2025-01-02T10:00:00Z' }
+      const third = { ...first, id: 'proj-3', title: 'Third' }
+      await writeFile(JSONL_PATH, [closed, third].map(i => JSON.stringify(i)).join('\n') + '\n')
+
+      const watcher = createWatcher(BEADS_DIR, { checkpoint: true })
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+      await watcher.stop()
+
+      expect(events.map(e => `${e.type}:${e.issue.id}`)).toEqual(['created:proj-3', 'closed:proj-1', 'deleted:proj-2'])
+      expect(events[1]!.previousIssue?.status).toBe('open')
+    })
+
+    test('does not replay without a checkpoint', async () => {
+      const issue = { id: 'proj-1', title: 'First', status: 'open', priority: 2, issue_type: 'task', created_at: '2025-01-01T10:00:00Z', updated_at: '2025-01-01T10:00:00Z' }
+      await writeFile(JSONL_PATH, JSON.stringify(issue) + '\n')
+
+      const watcher = createWatcher(BEADS_DIR, { checkpoint: true })
+      const events: WatcherEvent[] = []
+
+      watcher.on('issue', (event) => {
+        events.push(event)
+      })
+
+      await watcher.start()
+      await watcher.stop()
+
+      expect(events).toEqual([])
+    })
+  })
+
   describe('debouncing', () => {
     test('debounces rapid changes', async () => {
       const watcher = createWatcher(BEADS_DIR, { debounceMs: 100 })
@@ -194,6 +194,27 @@ describe('Workflows', () => {
 
       expect(result).toBe(false)
     })
+
+    test('matches version and handler when given', async () => {
+      const workflows = Workflows(BEADS_DIR)
+
+      await workflows.record({
+        type: 'issue',
+        issue: 'bw-123',
+        event: 'closed',
+        status: 'success',
+        handler: 'on.issue.closed.ts',
+        trigger: 'daemon',
+        commit: 'abc123',
+        duration: 100,
+        version: '2025-01-02T10:00:00.000Z',
+      })
+
+      expect(await workflows.wasExecuted('bw-123', 'closed', { version: '2025-01-02T10:00:00.000Z' })).toBe(true)
+      expect(await workflows.wasExecuted('bw-123', 'closed', { version: '2025-01-03T10:00:00.000Z' })).toBe(false)
+      expect(await workflows.wasExecuted('bw-123', 'closed', { handler: 'on.issue.closed.ts' })).toBe(true)
+      expect(await workflows.wasExecuted('bw-123', 'closed', { handler: 'other.ts' })).toBe(false)
+    })
   })
 
   describe('list', () => {
@@ -333,5 +354,103 @@ describe('Workflows', () => {
 
       expect(retryInfo).toBeNull()
     })
+
+    test('returns null when a later attempt succeeded', async () => {
+      const workflows = Workflows(BEADS_DIR)
+
+      const failed = await workflows.record({
+        type: 'issue',
+        issue: 'bw-123',
+        event: 'closed',
+        status: 'failed',
+        handler: 'on.issue.closed.ts',
+        trigger: 'push',
+        commit: 'abc',
+        duration: 100,
+        error: 'error',
+      })
+
+      await workflows.record({
+        type: 'issue',
+        issue: 'bw-123',
+        event: 'closed',
+        status: 'success',
+        handler: 'on.issue.closed.ts',
+        trigger: 'daemon',
+        commit: 'abc',
+        duration: 100,
+        retry_of: failed.id,
+      })
+
+      expect(await workflows.retry('bw-123', 'closed')).toBeNull()
+    })
+
+    test('tracks attempts per handler', async () => {
+      const workflows = Workflows(BEADS_DIR)
+
+      for (const [handler, status] of [['workflows/on.issue.closed/a.ts', 'failed'], ['workflows/on.issue.closed/b.ts', 'success']] as const) {
+        await workflows.record({
+          type: 'issue',
+          issue: 'bw-123',
+          event: 'closed',
+          status,
+          handler,
+          trigger: 'daemon',
+          commit: 'abc',
+          duration: 1,
+        })
+      }
+
+      expect((await workflows.retry('bw-123', 'closed'))?.handler).toBe('workflows/on.issue.closed/a.ts')
+      expect(await workflows.retry('bw-123', 'closed', 'workflows/on.issue.closed/b.ts')).toBeNull()
+    })
+  })
+
+  describe('listRetryable', () => {
+    test('returns events whose latest attempt failed', async () => {
+      const workflows = Workflows(BEADS_DIR)
+
+      for (const [issue, status] of [['bw-1', 'failed'], ['bw-2', 'failed'], ['bw-1', 'success'], ['bw-2', 'failed']] as const) {
+        await workflows.record({
+          type: 'issue',
+          issue,
+          event: 'closed',
+          status,
+          handler: 'on.issue.closed.ts',
+          trigger: 'daemon',
+          commit: 'abc',
+          duration: 1,
+        })
+      }
+
+      const retryable = await workflows.listRetryable()
+
+      expect(retryable.map(r => r.issue)).toEqual(['bw-2'])
+      expect(retryable[0]!.id).toBeDefined()
+    })
+
+    test('includes scheduled fire times whose latest attempt failed', async () => {
+      const workflows = Workflows(BEADS_DIR)
+
+      for (const [scheduled_at, status] of [['2025-01-01T09:00:00.000Z', 'failed'], ['2025-01-01T10:00:00.000Z', 'failed'], ['2025-01-01T09:00:00.000Z', 'success']] as const) {
+        await workflows.record({
+          type: 'schedule',
+          cron: '0 * * * *',
+          scheduled_at,
+          status,
+          handler: 'every.hour.ts',
+          trigger: 'daemon',
+          commit: 'abc',
+          duration: 1,
+          error: status === 'failed' ? 'boom' : undefined,
+        })
+      }
+
+      const retryable = await workflows.listRetryable()
+
+      expect(retryable).toEqual([
+        expect.objectContaining({ type: 'schedule', handler: 'every.hour.ts', cron: '0 * * * *', scheduledAt: '2025-01-01T10:00:00.000Z', error: 'boom' }),
+      ])
+    })
   })
 })